@@ -1,7 +1,10 @@
 import { NextResponse } from 'next/server';
+import { createCache } from '@/lib/cache';
+import { isFixtureMode } from '@/lib/dataSource';
+import { getFixtureDefiLlamaPools } from '@/lib/fixtures';
 
 // Define the DeFi Llama pool structure
-interface DefiLlamaPool {
+export interface DefiLlamaPool {
   pool: string;
   chain: string;
   project: string;
@@ -16,10 +19,24 @@ interface DefiLlamaPool {
   url?: string;
 }
 
-// Cache the results to avoid hitting rate limits
-let poolsCache: DefiLlamaPool[] | null = null;
-let lastFetchTime = 0;
-const CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
+// Cache the results to avoid hitting rate limits; kept on disk so cold starts skip the large download
+const poolsCache = createCache<DefiLlamaPool[]>('defi-llama-pools', {
+  ttlMs: 10 * 60 * 1000, // 10 minutes
+  staleWhileRevalidateMs: 50 * 60 * 1000,
+  persist: true,
+});
+
+async function fetchPools(): Promise<DefiLlamaPool[]> {
+  console.log('[DeFi Llama API] Fetching fresh data');
+  const response = await fetch('https://yields.llama.fi/pools');
+  
+  if (!response.ok) {
+    throw new Error(`DeFi Llama API returned ${response.status}: ${response.statusText}`);
+  }
+  
+  const data = await response.json();
+  return data.data;
+}
 
 export async function GET(request: Request) {
   try {
@@ -27,37 +44,15 @@ export async function GET(request: Request) {
     const chain = searchParams.get('chain') || 'polygon';
     const minTvl = Number(searchParams.get('minTvl')) || 10000;
     
-    // Check if we have a valid cache
-    const now = Date.now();
-    if (poolsCache && now - lastFetchTime < CACHE_DURATION) {
-      console.log('[DeFi Llama API] Using cached data');
-      
-      // Filter pools based on query parameters
-      const filteredPools = poolsCache.filter(pool => 
-        pool.chain.toLowerCase() === chain.toLowerCase() && 
-        pool.tvlUsd >= minTvl
-      );
-      
-      return NextResponse.json(filteredPools);
-    }
-    
-    // Fetch fresh data from DeFi Llama
-    console.log('[DeFi Llama API] Fetching fresh data');
-    const response = await fetch('https://yields.llama.fi/pools');
-    
-    if (!response.ok) {
-      throw new Error(`DeFi Llama API returned ${response.status}: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    poolsCache = data.data;
-    lastFetchTime = now;
+    const pools = isFixtureMode()
+      ? getFixtureDefiLlamaPools()
+      : await poolsCache.get('pools', fetchPools);
     
     // Filter pools based on query parameters
-    const filteredPools = poolsCache ? poolsCache.filter(pool => 
+    const filteredPools = pools.filter(pool => 
       pool.chain.toLowerCase() === chain.toLowerCase() && 
       pool.tvlUsd >= minTvl
-    ) : [];
+    );
     
     return NextResponse.json(filteredPools);
   } catch (error) {
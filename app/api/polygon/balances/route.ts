@@ -1,79 +1,14 @@
 import { NextResponse } from 'next/server';
-import { createPublicClient, http, formatUnits } from 'viem';
-import { polygon } from 'wagmi/chains';
-import { POLYGON_TOKENS } from '@/lib/services/yieldService';
+import { isAddress } from 'viem';
+import { fetchWalletBalances, type WalletBalances } from '@/lib/balances';
+import { createCache } from '@/lib/cache';
+import { resolveChainParam } from '@/lib/chains';
+import { isFixtureMode } from '@/lib/dataSource';
+import { getFixtureBalances } from '@/lib/fixtures';
+import { getPublicClient } from '@/lib/rpc/client';
 
-// Create a public client for Polygon with a server-side API key
-// In production, use environment variables for API keys
-const ALCHEMY_API_KEY = process.env.ALCHEMY_API_KEY || 'demo';
-const publicClient = createPublicClient({
-  chain: polygon,
-  transport: http(`https://polygon-mainnet.g.alchemy.com/v2/${ALCHEMY_API_KEY}`),
-});
-
-// ERC20 ABI for balance checking
-const ERC20_ABI = [
-  {
-    name: 'balanceOf',
-    type: 'function',
-    inputs: [{ name: 'account', type: 'address' }],
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
-  },
-  {
-    name: 'decimals',
-    type: 'function',
-    inputs: [],
-    outputs: [{ name: '', type: 'uint8' }],
-    stateMutability: 'view',
-  }
-];
-
-// Function to fetch user balances
-async function fetchUserBalances(address: string) {
-  try {
-    const balances: Record<string, number> = {};
-    
-    // If using demo API key, return mock data to avoid rate limiting
-    if (ALCHEMY_API_KEY === 'demo') {
-      return {
-        USDC: 1000.0,
-        DAI: 1000.0,
-        WETH: 0.5
-      };
-    }
-    
-    for (const [symbol, tokenAddress] of Object.entries(POLYGON_TOKENS)) {
-      try {
-        // Get token decimals
-        const decimals = await publicClient.readContract({
-          address: tokenAddress as `0x${string}`,
-          abi: ERC20_ABI,
-          functionName: 'decimals',
-        });
-        
-        // Get user balance
-        const balance = await publicClient.readContract({
-          address: tokenAddress as `0x${string}`,
-          abi: ERC20_ABI,
-          functionName: 'balanceOf',
-          args: [address as `0x${string}`],
-        });
-        
-        // Convert to human-readable format
-        balances[symbol] = Number(formatUnits(balance as bigint, Number(decimals)));
-      } catch (error) {
-        console.error(`Error fetching balance for ${symbol}:`, error);
-        balances[symbol] = 0;
-      }
-    }
-    
-    return balances;
-  } catch (error) {
-    console.error('Error fetching user balances:', error);
-    return {};
-  }
-}
+// Balances change with every transfer, so only bursts of page loads share a read
+const balancesCache = createCache<WalletBalances>('balances', { ttlMs: 15 * 1000, staleWhileRevalidateMs: 45 * 1000 });
 
 export async function GET(request: Request) {
   try {
@@ -81,18 +16,39 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
     const address = searchParams.get('address');
     
-    if (!address) {
+    if (!address || !isAddress(address)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid address parameter' },
+        { status: 400 }
+      );
+    }
+
+    const chain = resolveChainParam(searchParams.get('chain'));
+    if (!chain) {
       return NextResponse.json(
-        { error: 'Missing address parameter' },
+        { error: 'Unsupported chain' },
         { status: 400 }
       );
     }
     
-    console.log(`[API] Fetching balances for address: ${address}`);
+    console.log(`[API] Fetching ${chain.name} balances for address: ${address}`);
+
+    if (isFixtureMode()) {
+      return NextResponse.json(getFixtureBalances(chain, address));
+    }
     
-    // Fetch user balances
-    const balances = await fetchUserBalances(address);
-    console.log(`[API] Successfully fetched balances for ${Object.keys(balances).length} tokens`);
+    // fresh=1 skips the cached balances, e.g. right after the user's transaction confirmed
+    const cacheKey = `${chain.key}:${address.toLowerCase()}`;
+    if (searchParams.get('fresh') === '1') {
+      await balancesCache.delete(cacheKey);
+    }
+
+    // Wallet, native and supplied balances in one multicall
+    const balances = await balancesCache.get(cacheKey, async () => {
+      const fresh = await fetchWalletBalances(getPublicClient(chain), chain, address);
+      console.log(`[API] Successfully fetched ${fresh.wallet.length} token balances and ${fresh.supplied.length} supplied positions`);
+      return fresh;
+    });
     
     return NextResponse.json(balances);
   } catch (error) {
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { resolveChainParam } from '@/lib/chains';
+import { isFixtureMode } from '@/lib/dataSource';
+import { getFixtureGasEstimate } from '@/lib/fixtures';
+import {
+  estimateGasBatch,
+  MAX_GAS_ESTIMATE_BATCH,
+  parseTransactionGasParams,
+  type GasEstimateResult,
+} from '@/lib/gas';
+import { getCachedPriceSnapshot } from '@/lib/priceCache';
+import { getPublicClient } from '@/lib/rpc/client';
+
+interface BatchRequestBody {
+  chain?: string;
+  userAddress?: string;
+  transactions?: { action?: string; protocol?: string; tokenAddress?: string; amount?: string }[];
+}
+
+// Estimate every deposit or withdrawal in the body at once; results come back in request order
+export async function POST(request: Request) {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  };
+
+  try {
+    const body = (await request.json().catch(() => null)) as BatchRequestBody | null;
+    const chain = resolveChainParam(body?.chain ?? null);
+    if (!chain) {
+      return NextResponse.json({ error: 'Unsupported chain' }, { status: 400, headers });
+    }
+
+    const transactions = body?.transactions;
+    if (!Array.isArray(transactions) || transactions.length === 0 || transactions.length > MAX_GAS_ESTIMATE_BATCH) {
+      return NextResponse.json(
+        { error: `transactions must be a list of 1 to ${MAX_GAS_ESTIMATE_BATCH} entries` },
+        { status: 400, headers }
+      );
+    }
+
+    console.log(`[Gas Estimate API] Batch of ${transactions.length} on ${chain.key} for ${body?.userAddress}`);
+
+    // Invalid entries get their own error; the rest are estimated together
+    const parsed = transactions.map((transaction) =>
+      parseTransactionGasParams(chain, { ...transaction, userAddress: body?.userAddress })
+    );
+    const valid = parsed.flatMap((entry) => ('params' in entry ? [entry.params] : []));
+
+    let estimated: GasEstimateResult[] = [];
+    if (valid.length > 0) {
+      estimated = isFixtureMode()
+        ? valid.map(({ protocol, action, tokenAddress }) => ({
+            estimate: getFixtureGasEstimate(chain, protocol, action, tokenAddress),
+          }))
+        : await estimateGasBatch(getPublicClient(chain), chain, valid, () => getCachedPriceSnapshot(chain));
+    }
+
+    let next = 0;
+    const results: GasEstimateResult[] = parsed.map((entry) => ('params' in entry ? estimated[next++] : entry));
+
+    return NextResponse.json({ chain: chain.key, results }, { headers });
+  } catch (error) {
+    console.error('Error estimating gas batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to estimate gas', details: error instanceof Error ? error.message : String(error) },
+      { status: 500, headers }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+    }
+  });
+}
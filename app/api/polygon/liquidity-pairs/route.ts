@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import { formatUnits } from 'viem';
+import { resolveChainParam } from '@/lib/chains';
+import { getFixtureLiquidityPairs } from '@/lib/fixtures';
+import { getTokenCategory } from '@/lib/tokens';
 
 // Define the structure for liquidity pair data
 export interface LiquidityPair {
@@ -35,182 +38,8 @@ export interface LiquidityPair {
   volumeChange7d: number; // Percentage change in volume over 7 days
 }
 
-// Mock data for liquidity pairs
-const mockLiquidityPairs: LiquidityPair[] = [
-  {
-    pairAddress: '0x45dda9cb7c25131df268515131f647d726f50608',
-    token0: {
-      address: '0x2791bca1f2de4661ed88a30c99a7a9449aa84174',
-      symbol: 'USDC',
-      name: 'USD Coin',
-      decimals: 6,
-      price: 1.0
-    },
-    token1: {
-      address: '0x7ceb23fd6bc0add59e62ac25578270cff1b9f619',
-      symbol: 'WETH',
-      name: 'Wrapped Ether',
-      decimals: 18,
-      price: 3500.0
-    },
-    protocol: 'QuickSwap',
-    tvl: 4500000,
-    apr: 12.5,
-    rewardTokens: [
-      {
-        symbol: 'QUICK',
-        address: '0xb5c064f955d8e7f38fe0460c556a72987494ee17',
-        rewardRate: 0.00025,
-        price: 45.0
-      }
-    ],
-    riskLevel: 'low',
-    farmUrl: 'https://quickswap.exchange/#/pools/v2/0x45dda9cb7c25131df268515131f647d726f50608',
-    swapUrl: 'https://quickswap.exchange/#/swap',
-    fee: 0.3,
-    volume24h: 1200000,
-    volumeChange7d: 5.2
-  },
-  {
-    pairAddress: '0xc31e54c7a869b9fcbecc14363cf510d1c41fa443',
-    token0: {
-      address: '0x2791bca1f2de4661ed88a30c99a7a9449aa84174',
-      symbol: 'USDC',
-      name: 'USD Coin',
-      decimals: 6,
-      price: 1.0
-    },
-    token1: {
-      address: '0x1bfd67037b42cf73acf2047067bd4f2c47d9bfd6',
-      symbol: 'WBTC',
-      name: 'Wrapped Bitcoin',
-      decimals: 8,
-      price: 65000.0
-    },
-    protocol: 'SushiSwap',
-    tvl: 3800000,
-    apr: 9.8,
-    rewardTokens: [
-      {
-        symbol: 'SUSHI',
-        address: '0x0b3f868e0be5597d5db7feb59e1cadbb0fdda50a',
-        rewardRate: 0.00018,
-        price: 1.2
-      }
-    ],
-    riskLevel: 'low',
-    farmUrl: 'https://app.sushi.com/pool/137:0xc31e54c7a869b9fcbecc14363cf510d1c41fa443',
-    swapUrl: 'https://app.sushi.com/swap',
-    fee: 0.25,
-    volume24h: 950000,
-    volumeChange7d: 3.8
-  },
-  {
-    pairAddress: '0x160532d2536175d65c03b97b0630a9802c274dad',
-    token0: {
-      address: '0x8f3cf7ad23cd3cadbd9735aff958023239c6a063',
-      symbol: 'DAI',
-      name: 'Dai Stablecoin',
-      decimals: 18,
-      price: 1.0
-    },
-    token1: {
-      address: '0x2791bca1f2de4661ed88a30c99a7a9449aa84174',
-      symbol: 'USDC',
-      name: 'USD Coin',
-      decimals: 6,
-      price: 1.0
-    },
-    protocol: 'Curve',
-    tvl: 8200000,
-    apr: 4.2,
-    rewardTokens: [
-      {
-        symbol: 'CRV',
-        address: '0x172370d5cd63279efa6d502dab29171933a610af',
-        rewardRate: 0.00042,
-        price: 0.8
-      }
-    ],
-    riskLevel: 'low',
-    farmUrl: 'https://polygon.curve.fi/factory-crypto/0x160532d2536175d65c03b97b0630a9802c274dad',
-    swapUrl: 'https://polygon.curve.fi/swap',
-    fee: 0.04,
-    volume24h: 3500000,
-    volumeChange7d: 1.5
-  },
-  {
-    pairAddress: '0xcd578f016888b57f1b1e3f887f392f0159e26747',
-    token0: {
-      address: '0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270',
-      symbol: 'WMATIC',
-      name: 'Wrapped Matic',
-      decimals: 18,
-      price: 0.85
-    },
-    token1: {
-      address: '0x7ceb23fd6bc0add59e62ac25578270cff1b9f619',
-      symbol: 'WETH',
-      name: 'Wrapped Ether',
-      decimals: 18,
-      price: 3500.0
-    },
-    protocol: 'UniswapV3',
-    tvl: 2800000,
-    apr: 18.5,
-    rewardTokens: [
-      {
-        symbol: 'UNI',
-        address: '0xb33eaad8d922b1083446dc23f610c2567fb5180f',
-        rewardRate: 0.00032,
-        price: 10.5
-      }
-    ],
-    riskLevel: 'medium',
-    farmUrl: 'https://app.uniswap.org/#/pools/137/0xcd578f016888b57f1b1e3f887f392f0159e26747',
-    swapUrl: 'https://app.uniswap.org/#/swap',
-    fee: 0.3,
-    volume24h: 1800000,
-    volumeChange7d: 8.7
-  },
-  {
-    pairAddress: '0x9b17baadf0f21f03e35249e0e59723f34994f806',
-    token0: {
-      address: '0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270',
-      symbol: 'WMATIC',
-      name: 'Wrapped Matic',
-      decimals: 18,
-      price: 0.85
-    },
-    token1: {
-      address: '0x2791bca1f2de4661ed88a30c99a7a9449aa84174',
-      symbol: 'USDC',
-      name: 'USD Coin',
-      decimals: 6,
-      price: 1.0
-    },
-    protocol: 'Balancer',
-    tvl: 1500000,
-    apr: 15.2,
-    rewardTokens: [
-      {
-        symbol: 'BAL',
-        address: '0x9a71012b13ca4d3d0cdc72a177df3ef03b0e76a3',
-        rewardRate: 0.00028,
-        price: 6.2
-      }
-    ],
-    riskLevel: 'medium',
-    farmUrl: 'https://app.balancer.fi/#/polygon/pool/0x9b17baadf0f21f03e35249e0e59723f34994f806/add',
-    swapUrl: 'https://app.balancer.fi/#/polygon/swap',
-    fee: 0.2,
-    volume24h: 750000,
-    volumeChange7d: 4.3
-  }
-];
-
 // Helper function to calculate comprehensive risk and quality score for liquidity pairs
-function calculateRiskScore(pair: LiquidityPair): number {
+function calculateRiskScore(pair: LiquidityPair, chainId: number): number {
   // Factors that contribute to risk and quality assessment:
   // 1. Price volatility between the tokens
   // 2. Protocol reputation, security, and audit status
@@ -223,22 +52,21 @@ function calculateRiskScore(pair: LiquidityPair): number {
   let riskScore = 0;
   
   // === TOKEN PAIR RISK ASSESSMENT ===
+  // Token categories come from the token registry; unknown tokens count as long-tail
+  const category0 = getTokenCategory(chainId, pair.token0.address);
+  const category1 = getTokenCategory(chainId, pair.token1.address);
+
   // Stablecoin pairs are lowest risk
-  const stablecoins = ['USDC', 'DAI', 'USDT', 'BUSD', 'USDP', 'TUSD', 'FRAX', 'LUSD'];
-  const isStablePair = 
-    stablecoins.includes(pair.token0.symbol) && stablecoins.includes(pair.token1.symbol);
+  const isStablePair = category0 === 'stable' && category1 === 'stable';
   
-  // Blue-chip tokens with established history
-  const blueChipTokens = ['WETH', 'WBTC', 'WMATIC', 'LINK', 'AAVE', 'UNI', 'MKR'];
-  const isBlueChipPair = 
-    (blueChipTokens.includes(pair.token0.symbol) || stablecoins.includes(pair.token0.symbol)) &&
-    (blueChipTokens.includes(pair.token1.symbol) || stablecoins.includes(pair.token1.symbol));
+  // Blue-chip tokens with established history, paired with each other or a stablecoin
+  const isBlueChipPair = category0 !== 'long-tail' && category1 !== 'long-tail';
   
   if (isStablePair) {
     riskScore += 1; // Lowest risk
   } else if (isBlueChipPair) {
     riskScore += 2; // Low-medium risk
-  } else if (blueChipTokens.includes(pair.token0.symbol) || blueChipTokens.includes(pair.token1.symbol)) {
+  } else if (category0 === 'blue-chip' || category1 === 'blue-chip') {
     riskScore += 3; // Medium risk - one blue chip token
   } else {
     riskScore += 4; // Higher risk - no established tokens
@@ -301,7 +129,7 @@ function calculateRiskScore(pair: LiquidityPair): number {
 }
 
 // Calculate potential profit for a given investment amount and time period
-function calculatePotentialProfit(pair: LiquidityPair, investmentAmount: number, days: number): {
+function calculatePotentialProfit(pair: LiquidityPair, chainId: number, investmentAmount: number, days: number): {
   feesEarned: number;
   rewardsEarned: number;
   totalProfit: number;
@@ -355,7 +183,7 @@ function calculatePotentialProfit(pair: LiquidityPair, investmentAmount: number,
   const apy = (Math.pow(1 + (roi / 100), 365 / days) - 1) * 100;
   
   // Calculate risk score (lower is better)
-  const riskScore = calculateRiskScore(pair);
+  const riskScore = calculateRiskScore(pair, chainId);
   
   // Calculate risk-adjusted return (Sharpe-like ratio)
   // Higher number is better - represents return per unit of risk
@@ -407,9 +235,17 @@ export async function GET(request: Request) {
     const sortBy = searchParams.get('sortBy') || 'qualityScore'; // Default to quality score
     const showHealthyOnly = searchParams.get('showHealthyOnly') === 'true'; // New parameter
     const minQualityScore = searchParams.get('minQualityScore') ? parseFloat(searchParams.get('minQualityScore')!) : 0;
+    const chain = resolveChainParam(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json({ error: 'Unsupported chain' }, { status: 400, headers });
+    }
+
+    // There is no live pair source yet, so every data source serves the scenario pairs,
+    // flagged as sample data so the UI can say so
+    const isSampleData = true;
 
     // Filter pairs based on query parameters
-    let filteredPairs = [...mockLiquidityPairs];
+    let filteredPairs = [...getFixtureLiquidityPairs(chain)];
     
     if (riskLevel) {
       filteredPairs = filteredPairs.filter(pair => pair.riskLevel === riskLevel);
@@ -425,8 +261,8 @@ export async function GET(request: Request) {
     
     // Calculate profit projections and risk metrics for each pair
     const pairsWithMetrics = filteredPairs.map(pair => {
-      const profitProjection = calculatePotentialProfit(pair, investmentAmount, timeHorizon);
-      const riskScore = calculateRiskScore(pair);
+      const profitProjection = calculatePotentialProfit(pair, chain.chain.id, investmentAmount, timeHorizon);
+      const riskScore = calculateRiskScore(pair, chain.chain.id);
       
       // Determine risk level based on risk score
       let calculatedRiskLevel: 'low' | 'medium' | 'high';
@@ -492,6 +328,7 @@ export async function GET(request: Request) {
 
     return NextResponse.json({ 
       pairs: resultPairs,
+      isSampleData,
       timestamp: new Date().toISOString()
     }, { status: 200, headers });
   } catch (error) {
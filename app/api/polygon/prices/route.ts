@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { resolveChainParam } from '@/lib/chains';
+import { isFixtureMode } from '@/lib/dataSource';
+import { getFixturePrices } from '@/lib/fixtures';
+import { getCachedPriceSnapshot } from '@/lib/priceCache';
+import { getTokenPriceUsd } from '@/lib/pricing';
+
+export async function GET(request: Request) {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  };
+
+  try {
+    // Optional comma-separated list of token addresses to narrow the response
+    const { searchParams } = new URL(request.url);
+    const tokens = searchParams.get('tokens');
+    const chain = resolveChainParam(searchParams.get('chain'));
+    if (!chain) {
+      return NextResponse.json({ error: 'Unsupported chain' }, { status: 400, headers });
+    }
+
+    console.log(`[Prices API] Fetching ${chain.name} Aave oracle prices${tokens ? ` for ${tokens}` : ''}`);
+    const snapshot = isFixtureMode()
+      ? getFixturePrices(chain)
+      : await getCachedPriceSnapshot(chain);
+
+    if (!tokens) {
+      return NextResponse.json(snapshot, { headers });
+    }
+
+    const prices: Record<string, number | null> = {};
+    for (const token of tokens.split(',')) {
+      prices[token.toLowerCase()] = getTokenPriceUsd(snapshot, token) ?? null;
+    }
+
+    return NextResponse.json(
+      { prices, nativeTokenPriceUsd: snapshot.nativeTokenPriceUsd, updatedAt: snapshot.updatedAt },
+      { headers }
+    );
+  } catch (error) {
+    console.error('[Prices API] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch token prices', details: error instanceof Error ? error.message : String(error) },
+      { status: 500, headers }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+    }
+  });
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { CHAINS, resolveChainParam, SUPPORTED_CHAIN_KEYS } from '@/lib/chains';
+import { DATA_SOURCE, isFixtureMode } from '@/lib/dataSource';
+import { getRpcStatus } from '@/lib/rpc/client';
+
+// Health of the RPC endpoints behind every route, for one chain or all of them
+export async function GET(request: Request) {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  };
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const chainParam = searchParams.get('chain');
+    const chain = chainParam ? resolveChainParam(chainParam) : undefined;
+    if (chainParam && !chain) {
+      return NextResponse.json({ error: 'Unsupported chain' }, { status: 400, headers });
+    }
+
+    const chains = chain ? [chain] : SUPPORTED_CHAIN_KEYS.map((key) => CHAINS[key]);
+
+    return NextResponse.json({
+      dataSource: DATA_SOURCE,
+      // In fixture mode no RPC calls are made, so the counters stay at zero
+      rpcInUse: !isFixtureMode(),
+      chains: chains.map((config) => ({
+        chain: config.key,
+        endpoints: getRpcStatus(config),
+      })),
+      updatedAt: new Date().toISOString(),
+    }, { headers });
+  } catch (error) {
+    console.error('[RPC Status API] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read RPC status', details: error instanceof Error ? error.message : String(error) },
+      { status: 500, headers }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+    }
+  });
+}
@@ -5,26 +5,36 @@ import { useAccount, useWalletClient } from 'wagmi';
 import { ConnectWallet } from '@/components/ui/connect-wallet';
 import { YieldOpportunity } from '@/components/yield-scanner/YieldTable';
 import { EnhancedYieldTable } from '@/components/yield-scanner/EnhancedYieldTable';
-import { depositToProtocol } from '@/lib/services/yieldService';
+import { ChainSelector } from '@/components/yield-scanner/ChainSelector';
+import { ViewAddressInput } from '@/components/ui/view-address-input';
+import { NetworkBanner } from '@/components/ui/network-banner';
+import { useSelectedChain } from '@/components/providers/ChainProvider';
+import { useViewAccount } from '@/components/providers/ViewAccountProvider';
+import { useTransactions } from '@/components/providers/TransactionProvider';
+import { toast } from '@/components/ui/use-toast';
+import {
+  depositToProtocol,
+  withdrawFromProtocol,
+  type TransactionResult,
+  type TransactionSubmittedHandler,
+} from '@/lib/services/yieldService';
 import { fetchYieldOpportunities } from '@/lib/services/apiService';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
+import { fetchUserBalances } from '@/lib/services/polygonService';
+import { applyBalances, type WalletBalances } from '@/lib/balances';
+import type { TrackedTransaction, TransactionKind } from '@/lib/transactions';
 
 export default function Home() {
   // Handle hydration
   const [mounted, setMounted] = useState(false);
   const { address, isConnected } = useAccount();
+  // The account whose balances and positions are shown; a watched address is read-only
+  const { address: viewedAddress, isWatchOnly } = useViewAccount();
   const { data: walletClient } = useWalletClient();
+  const { chain, isWrongNetwork } = useSelectedChain();
   const [opportunities, setOpportunities] = useState<YieldOpportunity[]>([]);
+  const [balances, setBalances] = useState<WalletBalances | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [depositState, setDepositState] = useState<{
-    isDepositing: boolean;
-    opportunity?: YieldOpportunity;
-    txHash?: string;
-    error?: string;
-  }>({
-    isDepositing: false,
-  });
+  const { track } = useTransactions();
 
   // Set mounted state after component mounts
   useEffect(() => {
@@ -34,51 +44,31 @@ export default function Home() {
   // Fetch yield opportunities when wallet connects
   useEffect(() => {
     if (!mounted) return;
+    // A response for the previous chain or address must not overwrite the current one
+    let ignore = false;
     
     async function fetchOpportunities() {
       setIsLoading(true);
       try {
         // Use the server-side API to fetch data (avoids CORS and rate limiting)
-        const data = await fetchYieldOpportunities(address);
+        const [data, walletBalances] = await Promise.all([
+          fetchYieldOpportunities(viewedAddress, chain.key),
+          viewedAddress ? fetchUserBalances(viewedAddress, chain.key) : Promise.resolve(null),
+        ]);
+        if (ignore) return;
+        setBalances(walletBalances);
         
         // Validate the data before setting it
-        if (Array.isArray(data) && data.length > 0) {
-          console.log('Received valid opportunities data:', data);
-          setOpportunities(data);
+        if (Array.isArray(data)) {
+          setOpportunities(walletBalances ? applyBalances(data, walletBalances) : data);
         } else {
-          console.warn('Received empty or invalid data from API');
-          // If we're connected but have no data, show mock data for demo purposes
-          if (address) {
-            console.log('Using mock data for connected wallet');
-            // Manually set some mock data for demonstration
-            setOpportunities([
-              {
-                protocol: 'Aave',
-                asset: 'USDC',
-                symbol: 'USDC',
-                apr: 5.2,
-                tvl: 500000000,
-                userBalance: 100,
-                depositUrl: 'https://app.aave.com',
-                contractAddress: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
-              },
-              {
-                protocol: 'Aave',
-                asset: 'DAI',
-                symbol: 'DAI',
-                apr: 4.5,
-                tvl: 200000000,
-                userBalance: 50,
-                depositUrl: 'https://app.aave.com',
-                contractAddress: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
-              },
-            ]);
-          }
+          console.warn('Received invalid data from API');
+          setOpportunities([]);
         }
       } catch (error) {
         console.error('Error fetching yield opportunities:', error);
       } finally {
-        setIsLoading(false);
+        if (!ignore) setIsLoading(false);
       }
     }
 
@@ -87,57 +77,91 @@ export default function Home() {
     // Set up an interval to refresh data every 60 seconds
     const intervalId = setInterval(fetchOpportunities, 60000);
     
-    // Clean up the interval when the component unmounts
-    return () => clearInterval(intervalId);
-  }, [address, mounted]);
+    // Clean up the interval and drop in-flight responses when the component unmounts or the view changes
+    return () => {
+      ignore = true;
+      clearInterval(intervalId);
+    };
+  }, [viewedAddress, mounted, chain.key]);
 
-  // Handle deposit
-  const handleDeposit = async (opportunity: YieldOpportunity) => {
-    if (!address || !isConnected || !walletClient) return;
-    
-    setDepositState({
-      isDepositing: true,
-      opportunity,
-    });
+  // Reload balances and positions after a transaction lands, skipping the server caches
+  const refreshPositions = async () => {
+    if (!viewedAddress) return;
+    const [updatedOpportunities, updatedBalances] = await Promise.all([
+      fetchYieldOpportunities(viewedAddress, chain.key, true),
+      fetchUserBalances(viewedAddress, chain.key, true),
+    ]);
+    setBalances(updatedBalances);
+    setOpportunities(updatedBalances ? applyBalances(updatedOpportunities, updatedBalances) : updatedOpportunities);
+  };
+
+  // Submit a deposit or withdrawal, tracking each transaction the wallet sends until it confirms.
+  // Resolves once the wallet has sent it; positions reload in the background after confirmation.
+  const runTransaction = async (
+    opportunity: YieldOpportunity,
+    action: 'deposit' | 'withdraw',
+    describe: (kind: TransactionKind) => string,
+    send: (onSubmitted: TransactionSubmittedHandler) => Promise<TransactionResult>
+  ) => {
+    // The network banner offers the switch; never send to a chain the user isn't viewing
+    if (isWrongNetwork) {
+      toast({ title: 'Wrong network', description: `Switch your wallet to ${chain.name} first`, variant: 'destructive' });
+      return;
+    }
+
+    let confirmation: Promise<TrackedTransaction> | undefined;
 
     try {
-      // In a real implementation, we would show a modal to input the amount
-      // For now, we'll just deposit the full balance
-      const amount = opportunity.userBalance;
-      
-      // Calculate the fee (0.5%)
-      const fee = amount * 0.005;
-      const amountAfterFee = amount - fee;
-      
-      const result = await depositToProtocol(opportunity, amount, address, walletClient);
-      
-      if (result.success) {
-        setDepositState({
-          isDepositing: false,
-          opportunity,
-          txHash: result.txHash,
-        });
-        
-        // Refresh opportunities after deposit
-        const updatedOpportunities = await fetchYieldOpportunities(address);
-        setOpportunities(updatedOpportunities);
-      } else {
-        setDepositState({
-          isDepositing: false,
-          opportunity,
-          error: result.error || 'Transaction failed',
-        });
+      const result = await send((hash, kind) => {
+        const tracked = track({ hash, chain: opportunity.chain ?? chain.key, kind, description: describe(kind) });
+        if (kind === action) confirmation = tracked;
+      });
+
+      if (!result.success) {
+        toast(result.errorKind === 'rejected'
+          ? { title: 'Transaction cancelled', description: 'You rejected the request in your wallet, so nothing was sent.' }
+          : { title: `${action === 'withdraw' ? 'Withdrawal' : 'Deposit'} failed`, description: result.error || 'Transaction failed', variant: 'destructive' });
+        return;
       }
+
+      // Refresh opportunities and balances once the transaction lands
+      confirmation
+        ?.then((tracked) => (tracked.status === 'confirmed' ? refreshPositions() : undefined))
+        .catch((error) => console.error(`Error refreshing positions after ${action}:`, error));
     } catch (error) {
-      console.error('Error depositing:', error);
-      setDepositState({
-        isDepositing: false,
-        opportunity,
-        error: 'An unexpected error occurred',
-      });
+      console.error(`Error during ${action}:`, error);
+      toast({ title: 'Transaction failed', description: 'An unexpected error occurred', variant: 'destructive' });
     }
   };
 
+  // Handle deposit of the amount picked in the deposit dialog
+  const handleDeposit = (opportunity: YieldOpportunity, amount: number) => {
+    if (!address || !isConnected || !walletClient || isWatchOnly) return;
+
+    return runTransaction(
+      opportunity,
+      'deposit',
+      (kind) => kind === 'approve'
+        ? `Approve ${opportunity.symbol} for ${opportunity.protocol}`
+        : `Deposit ${amount.toFixed(2)} ${opportunity.symbol} into ${opportunity.protocol}`,
+      (onSubmitted) => depositToProtocol(opportunity, amount, address, walletClient, onSubmitted)
+    );
+  };
+
+  // Handle withdrawal of part or all of a supplied position
+  const handleWithdraw = (opportunity: YieldOpportunity, amount: number | 'max') => {
+    if (!address || !isConnected || !walletClient || isWatchOnly) return;
+
+    return runTransaction(
+      opportunity,
+      'withdraw',
+      () => amount === 'max'
+        ? `Withdraw all ${opportunity.symbol} from ${opportunity.protocol}`
+        : `Withdraw ${amount.toFixed(2)} ${opportunity.symbol} from ${opportunity.protocol}`,
+      (onSubmitted) => withdrawFromProtocol(opportunity, amount, address, walletClient, onSubmitted)
+    );
+  };
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       <header className="border-b border-border">
@@ -153,7 +177,7 @@ export default function Home() {
           <section className="text-center max-w-3xl mx-auto">
             <h2 className="text-4xl font-bold mb-4">Find the Best DeFi Yields</h2>
             <p className="text-lg text-muted-foreground mb-4">
-              Connect your wallet to scan for the highest yield opportunities across Polygon DeFi protocols.
+              Connect your wallet, or view any address read-only, to scan for the highest yield opportunities across DeFi protocols on {chain.name}.
             </p>
             <p className="text-md text-muted-foreground mb-8">
               New to DeFi? Our educational tools will help you understand yield farming concepts and make informed decisions.
@@ -167,64 +191,28 @@ export default function Home() {
           </section>
           
           {/* Yield opportunities */}
-          <section>
+          <section className="space-y-4">
+            <div className="flex flex-wrap justify-end items-start gap-2">
+              <ViewAddressInput />
+              <ChainSelector />
+            </div>
+            {isWatchOnly ? (
+              <p className="text-sm text-muted-foreground">
+                Watch-only: balances and positions belong to the viewed address, so deposits and withdrawals are disabled.
+              </p>
+            ) : (
+              <NetworkBanner />
+            )}
             <EnhancedYieldTable 
               opportunities={opportunities} 
+              balances={balances}
               onDeposit={handleDeposit} 
+              onWithdraw={handleWithdraw}
               isLoading={isLoading} 
+              readOnly={isWatchOnly}
             />
           </section>
           
-          {/* Transaction status */}
-          {depositState.txHash && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Transaction Successful</CardTitle>
-                <CardDescription>
-                  Your deposit to {depositState.opportunity?.protocol} was successful.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <p>
-                    <span className="font-medium">Amount:</span> {depositState.opportunity?.userBalance.toFixed(2)} {depositState.opportunity?.symbol}
-                  </p>
-                  <p>
-                    <span className="font-medium">Fee (0.5%):</span> {(depositState.opportunity?.userBalance ? depositState.opportunity.userBalance * 0.005 : 0).toFixed(2)} {depositState.opportunity?.symbol}
-                  </p>
-                  <p className="mb-4">
-                    <span className="font-medium">Transaction Hash:</span> <code className="bg-muted p-1 rounded">{depositState.txHash}</code>
-                  </p>
-                </div>
-                <Button
-                  onClick={() => setDepositState({ isDepositing: false })}
-                >
-                  Dismiss
-                </Button>
-              </CardContent>
-            </Card>
-          )}
-          
-          {depositState.error && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Transaction Failed</CardTitle>
-                <CardDescription>
-                  There was an error with your deposit.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <p className="mb-4 text-red-500">
-                  Error: {depositState.error}
-                </p>
-                <Button
-                  onClick={() => setDepositState({ isDepositing: false })}
-                >
-                  Dismiss
-                </Button>
-              </CardContent>
-            </Card>
-          )}
         </div>
       </main>
       
@@ -1,24 +1,99 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { PortfolioTracker } from '@/components/portfolio/PortfolioTracker';
+import { WalletPositions, type WalletFilter } from '@/components/portfolio/WalletPositions';
+import { ViewAddressInput } from '@/components/ui/view-address-input';
+import { useSelectedChain } from '@/components/providers/ChainProvider';
+import { useViewAccount } from '@/components/providers/ViewAccountProvider';
+import { fetchUserBalances } from '@/lib/services/polygonService';
+import { aggregateBalances, type WalletBalancesEntry } from '@/lib/balances';
+import { isSameAddress } from '@/lib/wallets';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import Link from 'next/link';
 import { ArrowLeft } from 'lucide-react';
 
+// Refresh on-chain balances on the same cadence as the scanner
+const REFRESH_INTERVAL_MS = 60000;
+
 export default function PortfolioPage() {
+  const { portfolioWallets } = useViewAccount();
+  const { chain } = useSelectedChain();
+  const [entries, setEntries] = useState<WalletBalancesEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [walletFilter, setWalletFilter] = useState<WalletFilter>('all');
+
+  // Load every portfolio wallet's balances side by side
+  useEffect(() => {
+    if (!portfolioWallets.length) {
+      setEntries([]);
+      return;
+    }
+    let cancelled = false;
+
+    async function loadBalances() {
+      setIsLoading(true);
+      const loaded = await Promise.all(
+        portfolioWallets.map(async (wallet) => ({
+          wallet,
+          balances: await fetchUserBalances(wallet.address, chain.key),
+        }))
+      );
+      if (cancelled) return;
+      setEntries(loaded);
+      setIsLoading(false);
+    }
+
+    loadBalances();
+    const intervalId = setInterval(loadBalances, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [portfolioWallets, chain.key]);
+
+  // Fall back to all wallets if the selected one was removed
+  const activeFilter = walletFilter !== 'all' && portfolioWallets.some((wallet) => isSameAddress(wallet.address, walletFilter))
+    ? walletFilter
+    : 'all';
+  const balances = aggregateBalances(
+    activeFilter === 'all' ? entries : entries.filter((entry) => isSameAddress(entry.wallet.address, activeFilter))
+  );
+  const filterLabel = activeFilter === 'all'
+    ? `${balances.walletCount} wallet${balances.walletCount === 1 ? '' : 's'}`
+    : portfolioWallets.find((wallet) => isSameAddress(wallet.address, activeFilter))?.label ?? 'Wallet';
+
   return (
     <div className="container mx-auto py-8 px-4">
-      <div className="mb-6">
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-2">
         <Link href="/">
           <Button variant="ghost" className="pl-0">
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back to Home
           </Button>
         </Link>
+        <ViewAddressInput />
+      </div>
+
+      <div className="mb-8">
+        <WalletPositions
+          wallets={portfolioWallets}
+          balances={balances}
+          chainName={chain.name}
+          filter={activeFilter}
+          onFilterChange={setWalletFilter}
+          isLoading={isLoading}
+        />
       </div>
       
-      <PortfolioTracker />
+      <PortfolioTracker
+        onChainTotals={balances.walletCount > 0 ? {
+          walletUsd: balances.totalWalletUsd,
+          suppliedUsd: balances.totalSuppliedUsd,
+          label: filterLabel,
+        } : undefined}
+      />
       
       <div className="mt-8">
         <Card className="p-6 bg-muted/30">
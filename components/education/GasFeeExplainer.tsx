@@ -4,12 +4,13 @@ import React, { useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { HelpCircle, Zap } from 'lucide-react';
+import { formatGasCost, formatGasFee, type GasEstimate } from '@/lib/gas';
 
 interface GasFeeExplainerProps {
-  gasFee: string;
+  estimate?: GasEstimate | null;
 }
 
-export function GasFeeExplainer({ gasFee }: GasFeeExplainerProps) {
+export function GasFeeExplainer({ estimate }: GasFeeExplainerProps) {
   return (
     <Dialog>
       <DialogTrigger asChild>
@@ -35,10 +36,45 @@ export function GasFeeExplainer({ gasFee }: GasFeeExplainerProps) {
           </div>
           
           <div>
-            <h4 className="font-medium text-gray-300">Your estimated gas fee: {gasFee}</h4>
+            <h4 className="font-medium text-gray-300">
+              Your estimated gas fee: {estimate ? `${formatGasFee(estimate)} (${formatGasCost(estimate)})` : 'Unknown'}
+            </h4>
             <p className="text-gray-400 mt-1">
               This is an estimate of what you'll pay to complete this transaction. Actual fees may vary slightly depending on network conditions.
             </p>
+            {estimate && (
+              <ul className="text-gray-400 mt-2 space-y-1">
+                {estimate.action === 'withdraw' ? (
+                  <li>Withdraw: {estimate.gasUnits.withdraw.toLocaleString()} gas</li>
+                ) : (
+                  <>
+                    <li>
+                      {estimate.usesPermit
+                        ? 'Approval: signed in your wallet for free and bundled into the deposit'
+                        : estimate.approvalNeeded
+                          ? `Approval: ${estimate.gasUnits.approve.toLocaleString()} gas (first deposit of this token)`
+                          : 'Approval: not needed, the current allowance covers this deposit'}
+                    </li>
+                    <li>Supply: {estimate.gasUnits.supply.toLocaleString()} gas</li>
+                  </>
+                )}
+                {estimate.permitSavings && (
+                  <li className="text-green-400">
+                    Saves {estimate.permitSavings.transactions} transaction
+                    {' '}({estimate.permitSavings.costUsd !== null
+                      ? `$${estimate.permitSavings.costUsd.toFixed(2)}`
+                      : `${estimate.permitSavings.costNative.toFixed(4)} ${estimate.nativeSymbol}`})
+                    {' '}compared with a separate approval
+                  </li>
+                )}
+                <li>
+                  Base fee {estimate.baseFeeGwei.toFixed(2)} gwei + priority fee {estimate.priorityFeeGwei.toFixed(2)} gwei
+                </li>
+                <li>
+                  At most {estimate.maxCostNative.toFixed(4)} {estimate.nativeSymbol} if the base fee doubles before inclusion
+                </li>
+              </ul>
+            )}
           </div>
           
           <div>
@@ -4,22 +4,44 @@ import React from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { ExternalLink, HelpCircle, TrendingUp, AlertTriangle, ShieldCheck } from 'lucide-react';
+import { CHAINS, DEFAULT_CHAIN_KEY, type SupportedChainKey } from '@/lib/chains';
+import { getTokenBySymbol, type TokenCategory } from '@/lib/tokens';
 
 interface TokenInfoProps {
   symbol: string;
+  chain?: SupportedChainKey;
 }
 
-const tokenData = {
+const categoryLabels: Record<TokenCategory, string> = {
+  'stable': 'Stablecoin',
+  'blue-chip': 'Blue-chip Asset',
+  'long-tail': 'Long-tail Asset',
+};
+
+// Fallback risk level for tokens without a written explainer
+const categoryRiskLevels: Record<TokenCategory, string> = {
+  'stable': 'Low',
+  'blue-chip': 'Medium',
+  'long-tail': 'High',
+};
+
+// Educational copy per symbol; addresses, names and categories come from the token registry
+const tokenEducation: Record<string, {
+  description: string;
+  riskLevel: string;
+  volatility: string;
+  backingType: string;
+  website: string;
+  useCase: string;
+  risks: string[];
+  benefits: string[];
+}> = {
   'USDC': {
-    name: 'USD Coin',
     description: 'USDC is a fully-collateralized US dollar stablecoin issued by Circle. Each USDC is backed by one US dollar held in reserve.',
-    type: 'Stablecoin',
     riskLevel: 'Low',
     volatility: 'Very Low',
     backingType: 'Fiat-backed (USD)',
-    marketCap: '$24.7B+',
     website: 'https://www.circle.com/en/usdc',
-    explorer: 'https://polygonscan.com/token/0x2791bca1f2de4661ed88a30c99a7a9449aa84174',
     useCase: 'USDC is commonly used for trading, payments, and as a stable store of value in DeFi protocols.',
     risks: [
       'Regulatory risks as a centralized stablecoin',
@@ -34,15 +56,11 @@ const tokenData = {
     ]
   },
   'DAI': {
-    name: 'Dai',
     description: 'Dai is a decentralized stablecoin that attempts to maintain a value of $1.00 USD. Unlike centralized stablecoins, Dai is backed by a surplus of cryptocurrencies stored in smart contracts.',
-    type: 'Stablecoin',
     riskLevel: 'Low to Medium',
     volatility: 'Low',
     backingType: 'Crypto-collateralized',
-    marketCap: '$5.3B+',
     website: 'https://makerdao.com',
-    explorer: 'https://polygonscan.com/token/0x8f3cf7ad23cd3cadbd9735aff958023239c6a063',
     useCase: 'Dai is used for trading, lending, as collateral in DeFi protocols, and as a decentralized alternative to centralized stablecoins.',
     risks: [
       'Smart contract risks in the MakerDAO system',
@@ -58,15 +76,11 @@ const tokenData = {
     ]
   },
   'WETH': {
-    name: 'Wrapped Ether',
     description: 'WETH is a tokenized version of Ether (ETH) that conforms to the ERC-20 standard, allowing it to be used in DeFi protocols that require ERC-20 compatibility.',
-    type: 'Wrapped Asset',
     riskLevel: 'Medium',
     volatility: 'High',
     backingType: '1:1 ETH backing',
-    marketCap: 'Varies with ETH price',
     website: 'https://weth.io',
-    explorer: 'https://polygonscan.com/token/0x7ceb23fd6bc0add59e62ac25578270cff1b9f619',
     useCase: 'WETH is used for trading, providing liquidity, and as collateral in various DeFi protocols on Polygon.',
     risks: [
       'Price volatility of the underlying ETH',
@@ -80,16 +94,59 @@ const tokenData = {
       'Potential for price appreciation along with ETH',
       'Widely accepted across DeFi protocols'
     ]
+  },
+  'WBTC': {
+    description: 'WBTC is an ERC-20 token backed 1:1 by bitcoin held by a custodian, bringing BTC exposure to DeFi protocols.',
+    riskLevel: 'Medium',
+    volatility: 'High',
+    backingType: 'Custodied BTC (1:1)',
+    website: 'https://wbtc.network',
+    useCase: 'WBTC is used as collateral for borrowing, for providing liquidity, and to earn yield on bitcoin holdings.',
+    risks: [
+      'Price volatility of the underlying BTC',
+      'Custodian risk with the entities holding the bitcoin',
+      'Bridge risks when moving between Ethereum and other chains'
+    ],
+    benefits: [
+      'Bitcoin exposure inside DeFi protocols',
+      'Backed 1:1 by BTC with on-chain proof of reserves',
+      'Deep liquidity on major lending markets'
+    ]
+  },
+  'WMATIC': {
+    description: 'WMATIC is the ERC-20 wrapped form of MATIC (now POL), the native gas token of Polygon.',
+    riskLevel: 'Medium',
+    volatility: 'High',
+    backingType: '1:1 MATIC backing',
+    website: 'https://polygon.technology',
+    useCase: 'WMATIC is used for trading, providing liquidity, and as collateral in DeFi protocols on Polygon.',
+    risks: [
+      'Price volatility of MATIC/POL',
+      'Smart contract risks in the wrapping contract',
+      'Ecosystem risk tied to the Polygon network'
+    ],
+    benefits: [
+      'ERC-20 compatibility for the native Polygon token',
+      'Unwraps 1:1 back to MATIC at any time',
+      'Frequently used as a reward token on Polygon'
+    ]
   }
 };
 
-export function TokenInfo({ symbol }: TokenInfoProps) {
-  const token = tokenData[symbol as keyof typeof tokenData];
+export function TokenInfo({ symbol, chain = DEFAULT_CHAIN_KEY }: TokenInfoProps) {
+  const chainConfig = CHAINS[chain];
+  const token = getTokenBySymbol(chainConfig.chain.id, symbol);
+  const education = tokenEducation[symbol.toUpperCase()];
   
   if (!token) {
     return null;
   }
 
+  const explorerUrl = chainConfig.chain.blockExplorers
+    ? `${chainConfig.chain.blockExplorers.default.url}/token/${token.address}`
+    : undefined;
+  const riskLevel = education?.riskLevel ?? categoryRiskLevels[token.category];
+
   const getRiskColor = (riskLevel: string) => {
     if (riskLevel.includes('Low')) return 'text-green-400';
     if (riskLevel.includes('Medium')) return 'text-yellow-400';
@@ -115,72 +172,94 @@ export function TokenInfo({ symbol }: TokenInfoProps) {
         <div className="space-y-4 py-4 text-sm">
           <div>
             <h4 className="font-medium text-gray-300">Description</h4>
-            <p className="text-gray-400 mt-1">{token.description}</p>
+            <p className="text-gray-400 mt-1">
+              {education?.description ?? `${token.name} is a ${categoryLabels[token.category].toLowerCase()} on ${chainConfig.name}.`}
+            </p>
           </div>
           
           <div className="grid grid-cols-2 gap-4">
             <div>
               <h4 className="font-medium text-gray-300">Type</h4>
-              <p className="text-gray-400 mt-1">{token.type}</p>
+              <p className="text-gray-400 mt-1">{categoryLabels[token.category]}</p>
             </div>
             <div>
               <h4 className="font-medium text-gray-300">Risk Level</h4>
-              <p className={`mt-1 ${getRiskColor(token.riskLevel)}`}>{token.riskLevel}</p>
+              <p className={`mt-1 ${getRiskColor(riskLevel)}`}>{riskLevel}</p>
             </div>
+            {education && (
+              <>
+                <div>
+                  <h4 className="font-medium text-gray-300">Volatility</h4>
+                  <p className="text-gray-400 mt-1">{education.volatility}</p>
+                </div>
+                <div>
+                  <h4 className="font-medium text-gray-300">Backing</h4>
+                  <p className="text-gray-400 mt-1">{education.backingType}</p>
+                </div>
+              </>
+            )}
             <div>
-              <h4 className="font-medium text-gray-300">Volatility</h4>
-              <p className="text-gray-400 mt-1">{token.volatility}</p>
+              <h4 className="font-medium text-gray-300">Decimals</h4>
+              <p className="text-gray-400 mt-1">{token.decimals}</p>
             </div>
             <div>
-              <h4 className="font-medium text-gray-300">Backing</h4>
-              <p className="text-gray-400 mt-1">{token.backingType}</p>
+              <h4 className="font-medium text-gray-300">Contract</h4>
+              <p className="text-gray-400 mt-1 font-mono">{token.address.slice(0, 6)}...{token.address.slice(-4)}</p>
             </div>
           </div>
           
-          <div>
-            <h4 className="font-medium text-gray-300">Use Cases</h4>
-            <p className="text-gray-400 mt-1">{token.useCase}</p>
-          </div>
-          
-          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-            <div>
-              <div className="flex items-center gap-1">
-                <ShieldCheck size={16} className="text-green-400" />
-                <h4 className="font-medium text-gray-300">Benefits</h4>
+          {education && (
+            <>
+              <div>
+                <h4 className="font-medium text-gray-300">Use Cases</h4>
+                <p className="text-gray-400 mt-1">{education.useCase}</p>
               </div>
-              <ul className="text-gray-400 mt-1 list-disc pl-5">
-                {token.benefits.map((benefit, index) => (
-                  <li key={index}>{benefit}</li>
-                ))}
-              </ul>
-            </div>
-            
-            <div>
-              <div className="flex items-center gap-1">
-                <AlertTriangle size={16} className="text-yellow-400" />
-                <h4 className="font-medium text-gray-300">Risks</h4>
+              
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <div className="flex items-center gap-1">
+                    <ShieldCheck size={16} className="text-green-400" />
+                    <h4 className="font-medium text-gray-300">Benefits</h4>
+                  </div>
+                  <ul className="text-gray-400 mt-1 list-disc pl-5">
+                    {education.benefits.map((benefit, index) => (
+                      <li key={index}>{benefit}</li>
+                    ))}
+                  </ul>
+                </div>
+                
+                <div>
+                  <div className="flex items-center gap-1">
+                    <AlertTriangle size={16} className="text-yellow-400" />
+                    <h4 className="font-medium text-gray-300">Risks</h4>
+                  </div>
+                  <ul className="text-gray-400 mt-1 list-disc pl-5">
+                    {education.risks.map((risk, index) => (
+                      <li key={index}>{risk}</li>
+                    ))}
+                  </ul>
+                </div>
               </div>
-              <ul className="text-gray-400 mt-1 list-disc pl-5">
-                {token.risks.map((risk, index) => (
-                  <li key={index}>{risk}</li>
-                ))}
-              </ul>
-            </div>
-          </div>
+            </>
+          )}
           
           <div className="flex space-x-4 pt-2">
-            <a href={token.website} target="_blank" rel="noopener noreferrer">
-              <Button variant="outline" size="sm" className="flex items-center gap-2">
-                <ExternalLink size={14} />
-                Website
-              </Button>
-            </a>
-            <a href={token.explorer} target="_blank" rel="noopener noreferrer">
-              <Button variant="outline" size="sm" className="flex items-center gap-2">
-                <ExternalLink size={14} />
-                Explorer
-              </Button>
-            </a>
+            {education && (
+              <a href={education.website} target="_blank" rel="noopener noreferrer">
+                <Button variant="outline" size="sm" className="flex items-center gap-2">
+                  <ExternalLink size={14} />
+                  Website
+                </Button>
+              </a>
+            )}
+            {explorerUrl && (
+              <a href={explorerUrl} target="_blank" rel="noopener noreferrer">
+                <Button variant="outline" size="sm" className="flex items-center gap-2">
+                  <ExternalLink size={14} />
+                  Explorer
+                </Button>
+              </a>
+            )}
           </div>
         </div>
       </DialogContent>
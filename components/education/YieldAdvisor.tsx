@@ -5,23 +5,36 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Button } from "@/components/ui/button";
 import { Calculator, Clock, TrendingUp, ArrowRight, DollarSign } from 'lucide-react';
 import { YieldOpportunity } from '@/components/yield-scanner/EnhancedYieldTable';
+import type { GasEstimate } from '@/lib/gas';
 
 interface YieldAdvisorProps {
   opportunity: YieldOpportunity;
   userBalance: number;
 }
 
-export function YieldAdvisor({ opportunity, userBalance }: YieldAdvisorProps) {
-  const [investmentAmount, setInvestmentAmount] = useState<number>(userBalance > 0 ? userBalance : 100);
-  const [timeHorizon, setTimeHorizon] = useState<number>(30); // days
-  const [showDetails, setShowDetails] = useState<boolean>(false);
-  
+export interface YieldProjection {
+  investmentAmountUSD: number;
+  dailyEarnings: number; // USD
+  projectedEarnings: number; // USD over the time horizon, compounded daily
+  gasCostInUSD: number;
+  breakEvenDays: number; // Days of earnings needed to cover gas
+}
+
+// Earnings for depositing an amount of the opportunity's token for a number of days.
+// Pass a gas estimate for that exact amount when there is one; the row's estimate is used otherwise.
+export function projectYield(
+  opportunity: YieldOpportunity,
+  investmentAmount: number,
+  timeHorizon: number,
+  gasEstimate: GasEstimate | null | undefined = opportunity.gasEstimate
+): YieldProjection {
   // Calculate potential earnings
   const dailyRate = opportunity.apr / 365 / 100;
   
   // For high-value assets like WBTC, ensure we're calculating earnings properly
-  // Use the asset price to convert to USD for more accurate calculations
-  const assetPriceInUSD = opportunity.symbol === 'WBTC' ? 65000 : // Approximate BTC price
+  // Use the oracle price from the API when available, otherwise fall back to an approximation
+  const assetPriceInUSD = opportunity.priceUsd ? opportunity.priceUsd :
+                          opportunity.symbol === 'WBTC' ? 65000 : // Approximate BTC price
                           opportunity.symbol === 'WETH' ? 3500 : // Approximate ETH price
                           opportunity.symbol === 'USDC' || opportunity.symbol === 'USDT' || opportunity.symbol === 'DAI' ? 1 :
                           10; // Default value for other tokens
@@ -31,13 +44,27 @@ export function YieldAdvisor({ opportunity, userBalance }: YieldAdvisorProps) {
   const projectedEarnings = investmentAmountUSD * Math.pow((1 + dailyRate), timeHorizon) - investmentAmountUSD;
   
   // Calculate gas costs and break-even point
-  const gasCostInUSD = opportunity.estimatedGasFee ? parseFloat(opportunity.estimatedGasFee.replace('$', '')) : 
-                     (opportunity.estimatedGasCost ? parseFloat(opportunity.estimatedGasCost.replace(' MATIC', '').replace('~', '')) * 0.5 : 5);
+  // Fall back to a conservative $5 when there is no estimate or no native token price
+  const gasCostInUSD = gasEstimate?.costUsd ?? 5;
                      
   // Ensure dailyEarnings is not zero or extremely small to avoid division issues
   // For high-value assets like WBTC, even small APRs can generate meaningful returns
   const minDailyEarnings = Math.max(dailyEarnings, 0.001); // Set minimum daily earnings to prevent unrealistic break-even calculations
   const breakEvenDays = gasCostInUSD / minDailyEarnings;
+
+  return { investmentAmountUSD, dailyEarnings, projectedEarnings, gasCostInUSD, breakEvenDays };
+}
+
+export function YieldAdvisor({ opportunity, userBalance }: YieldAdvisorProps) {
+  const [investmentAmount, setInvestmentAmount] = useState<number>(userBalance > 0 ? userBalance : 100);
+  const [timeHorizon, setTimeHorizon] = useState<number>(30); // days
+  const [showDetails, setShowDetails] = useState<boolean>(false);
+  
+  const { dailyEarnings, projectedEarnings, gasCostInUSD, breakEvenDays } = projectYield(
+    opportunity,
+    investmentAmount,
+    timeHorizon
+  );
   
   // Determine if this is a good opportunity based on time horizon
   const isGoodOpportunity = timeHorizon > Math.ceil(breakEvenDays);
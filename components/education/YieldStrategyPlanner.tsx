@@ -18,10 +18,8 @@ export function YieldStrategyPlanner({ opportunity, onClose }: YieldStrategyPlan
   const [reinvestYield, setReinvestYield] = useState<boolean>(true);
   
   // Calculate gas costs (entry and exit)
-  // Use a type assertion to handle the estimatedGasFee property that might not be in the interface
-  const opportunityWithFee = opportunity as (YieldOpportunity & { estimatedGasFee?: string });
-  const entryGasCost = opportunityWithFee.estimatedGasFee ? parseFloat(opportunityWithFee.estimatedGasFee.replace('$', '')) : 
-                     (opportunity.estimatedGasCost ? parseFloat(opportunity.estimatedGasCost.replace(' MATIC', '').replace('~', '')) * 0.5 : 5);
+  // Fall back to a conservative $5 when there is no estimate or no native token price
+  const entryGasCost = opportunity.gasEstimate?.costUsd ?? 5;
   const exitGasCost = entryGasCost * 0.8; // Estimate exit gas cost as 80% of entry
   const totalGasCost = entryGasCost + exitGasCost;
   
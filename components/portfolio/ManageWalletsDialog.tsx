@@ -0,0 +1,91 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useViewAccount } from '@/components/providers/ViewAccountProvider';
+import { shortenAddress } from '@/lib/wallets';
+
+interface ManageWalletsDialogProps {
+  onClose: () => void;
+}
+
+// Register labeled wallets (0x address or ENS name) whose balances the portfolio adds up
+export function ManageWalletsDialog({ onClose }: ManageWalletsDialogProps) {
+  const { wallets, addWallet, removeWallet } = useViewAccount();
+  const [input, setInput] = useState('');
+  const [label, setLabel] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsResolving(true);
+    const addError = await addWallet(input, label);
+    setIsResolving(false);
+    setError(addError);
+    if (!addError) {
+      setInput('');
+      setLabel('');
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Portfolio wallets</DialogTitle>
+          <DialogDescription>
+            Balances and positions of every wallet here are added to the portfolio. They are read-only.
+          </DialogDescription>
+        </DialogHeader>
+
+        {wallets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No wallets registered yet.</p>
+        ) : (
+          <ul className="divide-y text-sm">
+            {wallets.map((wallet) => (
+              <li key={wallet.address} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="font-medium">{wallet.label}</p>
+                  <p className="text-xs text-muted-foreground">{wallet.ensName ?? shortenAddress(wallet.address)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeWallet(wallet.address)}
+                  aria-label={`Remove ${wallet.label}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+          <div className="space-y-1">
+            <Label htmlFor="wallet-address">Address or ENS name</Label>
+            <Input id="wallet-address" value={input} onChange={(event) => setInput(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="wallet-label">Label</Label>
+            <Input
+              id="wallet-label"
+              value={label}
+              placeholder="e.g. Treasury hot wallet"
+              onChange={(event) => setLabel(event.target.value)}
+            />
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <Button type="submit" disabled={isResolving || !input.trim()}>
+            {isResolving ? 'Resolving...' : 'Add wallet'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -62,6 +62,17 @@ interface PortfolioHealth {
   recommendations: string[];
 }
 
+// On-chain balances of the portfolio wallets, summed for the wallet filter in use
+interface OnChainTotals {
+  walletUsd: number;
+  suppliedUsd: number;
+  label: string; // Which wallets the totals cover, e.g. "3 wallets" or a wallet's label
+}
+
+interface PortfolioTrackerProps {
+  onChainTotals?: OnChainTotals;
+}
+
 // Format currency with commas and 2 decimal places
 const formatCurrency = (value: number): string => {
   return new Intl.NumberFormat('en-US', {
@@ -103,7 +114,7 @@ const calculateTotalRewardValue = (investment: Investment): number => {
   return safeRewardTokens(investment).reduce((sum, token) => sum + token.value, 0);
 };
 
-export function PortfolioTracker() {
+export function PortfolioTracker({ onChainTotals }: PortfolioTrackerProps = {}) {
   const { toast } = useToast();
   // State to track and highlight recent changes
   const [recentChanges, setRecentChanges] = useState<{
@@ -956,6 +967,33 @@ export function PortfolioTracker() {
         </Card>
       </div>
 
+      {/* On-chain totals across the portfolio wallets, kept apart from the tracked investments they may overlap */}
+      {onChainTotals && (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Supplied on-chain ({onChainTotals.label})</p>
+                <h3 className="text-2xl font-bold">{formatCurrency(onChainTotals.suppliedUsd)}</h3>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Held in wallets ({onChainTotals.label})</p>
+                <h3 className="text-2xl font-bold">{formatCurrency(onChainTotals.walletUsd)}</h3>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">On-chain Value</p>
+                <h3 className="text-2xl font-bold text-primary">
+                  {formatCurrency(onChainTotals.suppliedUsd + onChainTotals.walletUsd)}
+                </h3>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Not added to the {formatCurrency(portfolio.totalCurrentValue)} of tracked investments, which may include the same positions
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Portfolio Performance Chart */}
       <Card>
         <CardHeader>
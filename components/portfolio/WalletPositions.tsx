@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ManageWalletsDialog } from './ManageWalletsDialog';
+import { formatCompactUsd } from '@/lib/utils';
+import type { AggregatedBalances } from '@/lib/balances';
+import type { LabeledWallet } from '@/lib/wallets';
+
+// 'all' or the address of the one wallet being shown
+export type WalletFilter = 'all' | string;
+
+interface WalletPositionsProps {
+  wallets: LabeledWallet[];
+  balances: AggregatedBalances;
+  chainName: string;
+  filter: WalletFilter;
+  onFilterChange: (filter: WalletFilter) => void;
+  isLoading: boolean;
+}
+
+function formatUsd(valueUsd: number | null): string {
+  return valueUsd === null ? '—' : formatCompactUsd(valueUsd);
+}
+
+// On-chain balances and lending positions summed across the portfolio wallets, read-only.
+// Every holding names the wallet it sits in.
+export function WalletPositions({ wallets, balances, chainName, filter, onFilterChange, isLoading }: WalletPositionsProps) {
+  const [isManaging, setIsManaging] = useState(false);
+  const heldTokens = balances.wallet.filter((token) => token.balance > 0);
+  const heldNative = balances.native.filter((native) => native.balance > 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>On-chain Positions</CardTitle>
+          <CardDescription>
+            {wallets.length === 0
+              ? 'Connect a wallet, view an address or add wallets to see balances and positions.'
+              : `${filter === 'all' ? `${wallets.length} wallet${wallets.length === 1 ? '' : 's'}` : 'One wallet'} on ${chainName}`}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {wallets.length > 1 && (
+            <Select value={filter} onValueChange={onFilterChange}>
+              <SelectTrigger className="w-[180px]" aria-label="Wallet">
+                <SelectValue placeholder="All wallets" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All wallets</SelectItem>
+                {wallets.map((wallet) => (
+                  <SelectItem key={wallet.address} value={wallet.address}>
+                    {wallet.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" onClick={() => setIsManaging(true)}>
+            Manage wallets
+          </Button>
+        </div>
+      </CardHeader>
+      {wallets.length > 0 && (
+        <CardContent className="space-y-6">
+          {balances.walletCount === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isLoading ? 'Loading balances...' : 'Balances are unavailable right now.'}
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">In wallets</p>
+                  <p className="text-2xl font-bold">{formatCompactUsd(balances.totalWalletUsd)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Supplied</p>
+                  <p className="text-2xl font-bold">{formatCompactUsd(balances.totalSuppliedUsd)}</p>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="font-medium mb-2">Lending positions</h4>
+                {balances.supplied.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No supplied positions.</p>
+                ) : (
+                  <ul className="divide-y text-sm">
+                    {balances.supplied.map((position) => (
+                      <li key={`${position.wallet.address}-${position.contractAddress}`} className="flex justify-between py-2">
+                        <span>
+                          {position.symbol} in {position.protocol}
+                          <span className="ml-2 text-xs text-muted-foreground">{position.wallet.label}</span>
+                        </span>
+                        <span>
+                          {position.balance.toFixed(4)} {position.symbol}{' '}
+                          <span className="text-muted-foreground">({formatUsd(position.valueUsd)})</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div>
+                <h4 className="font-medium mb-2">Wallet balances</h4>
+                {heldNative.length + heldTokens.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No tokens held.</p>
+                ) : (
+                  <ul className="divide-y text-sm">
+                    {heldNative.map((native) => (
+                      <li key={`${native.wallet.address}-native`} className="flex justify-between py-2">
+                        <span>
+                          {native.symbol}
+                          <span className="ml-2 text-xs text-muted-foreground">{native.wallet.label}</span>
+                        </span>
+                        <span>
+                          {native.balance.toFixed(4)}{' '}
+                          <span className="text-muted-foreground">({formatUsd(native.valueUsd)})</span>
+                        </span>
+                      </li>
+                    ))}
+                    {heldTokens.map((token) => (
+                      <li key={`${token.wallet.address}-${token.address}`} className="flex justify-between py-2">
+                        <span>
+                          {token.symbol}
+                          <span className="ml-2 text-xs text-muted-foreground">{token.wallet.label}</span>
+                        </span>
+                        <span>
+                          {token.balance.toFixed(4)}{' '}
+                          <span className="text-muted-foreground">({formatUsd(token.valueUsd)})</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      )}
+
+      {isManaging && <ManageWalletsDialog onClose={() => setIsManaging(false)} />}
+    </Card>
+  );
+}
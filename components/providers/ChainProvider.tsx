@@ -0,0 +1,119 @@
+'use client';
+
+import { ReactNode, createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { BaseError, UserRejectedRequestError } from 'viem';
+import { useAccount, useSwitchChain } from 'wagmi';
+import {
+  CHAINS,
+  DEFAULT_CHAIN_KEY,
+  isSupportedChainKey,
+  type ChainConfig,
+  type SupportedChainKey,
+} from '@/lib/chains';
+
+const STORAGE_KEY = 'yield-snap-chain';
+
+interface SelectedChainContextValue {
+  chainKey: SupportedChainKey;
+  chain: ChainConfig;
+  setChainKey: (chainKey: SupportedChainKey) => void;
+  isWrongNetwork: boolean; // Connected wallet is on a different chain than the one selected
+  isSwitching: boolean;
+  switchError: string | null;
+  switchToSelectedChain: () => Promise<boolean>;
+}
+
+// Lets the wallet add the chain through wallet_addEthereumChain if it doesn't know it yet
+function getAddEthereumChainParameter({ chain }: ChainConfig) {
+  return {
+    chainName: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: [...chain.rpcUrls.default.http],
+    blockExplorerUrls: chain.blockExplorers ? [chain.blockExplorers.default.url] : undefined,
+  };
+}
+
+function describeSwitchError(error: unknown, chain: ChainConfig): string {
+  if (error instanceof BaseError && error.walk((cause) => cause instanceof UserRejectedRequestError)) {
+    return `Switching to ${chain.name} was cancelled in your wallet`;
+  }
+  const message = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : null;
+  return message ? `Could not switch to ${chain.name}: ${message}` : `Could not switch to ${chain.name}`;
+}
+
+const SelectedChainContext = createContext<SelectedChainContextValue | null>(null);
+
+// Holds the chain the scanner is looking at and keeps the connected wallet on it
+export function ChainProvider({ children }: { children: ReactNode }) {
+  const { isConnected, chainId } = useAccount();
+  const { switchChainAsync, isPending: isSwitching } = useSwitchChain();
+  const [chainKey, setChainKeyState] = useState<SupportedChainKey>(DEFAULT_CHAIN_KEY);
+  const [switchError, setSwitchError] = useState<string | null>(null);
+
+  // Restore the last selected chain
+  useEffect(() => {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && isSupportedChainKey(saved)) {
+      setChainKeyState(saved);
+    }
+  }, []);
+
+  // Ask the wallet to move to a chain; resolves false if it refused or failed
+  const switchWallet = useCallback(async (target: ChainConfig) => {
+    setSwitchError(null);
+    try {
+      await switchChainAsync({
+        chainId: target.chain.id,
+        addEthereumChainParameter: getAddEthereumChainParameter(target),
+      });
+      return true;
+    } catch (error) {
+      console.error('Error switching chain:', error);
+      setSwitchError(describeSwitchError(error, target));
+      return false;
+    }
+  }, [switchChainAsync]);
+
+  const setChainKey = useCallback((nextChainKey: SupportedChainKey) => {
+    setChainKeyState(nextChainKey);
+    localStorage.setItem(STORAGE_KEY, nextChainKey);
+
+    // Ask the wallet to follow so deposits go to the chain being viewed
+    if (isConnected && chainId !== CHAINS[nextChainKey].chain.id) {
+      void switchWallet(CHAINS[nextChainKey]);
+    }
+  }, [isConnected, chainId, switchWallet]);
+
+  const switchToSelectedChain = useCallback(() => switchWallet(CHAINS[chainKey]), [switchWallet, chainKey]);
+
+  const isWrongNetwork = isConnected && chainId !== undefined && chainId !== CHAINS[chainKey].chain.id;
+
+  // A stale error shouldn't linger once the wallet is on the right chain
+  useEffect(() => {
+    if (!isWrongNetwork) setSwitchError(null);
+  }, [isWrongNetwork]);
+
+  return (
+    <SelectedChainContext.Provider
+      value={{
+        chainKey,
+        chain: CHAINS[chainKey],
+        setChainKey,
+        isWrongNetwork,
+        isSwitching,
+        switchError,
+        switchToSelectedChain,
+      }}
+    >
+      {children}
+    </SelectedChainContext.Provider>
+  );
+}
+
+export function useSelectedChain(): SelectedChainContextValue {
+  const context = useContext(SelectedChainContext);
+  if (!context) {
+    throw new Error('useSelectedChain must be used within a ChainProvider');
+  }
+  return context;
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { ReactNode, createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import type { Hash } from 'viem';
+import { useAccount, useConfig } from 'wagmi';
+import { getPublicClient } from 'wagmi/actions';
+import { toast } from '@/components/ui/use-toast';
+import { CHAINS } from '@/lib/chains';
+import {
+  isFinalStatus,
+  loadTransactionHistory,
+  saveTransactionHistory,
+  type TrackedTransaction,
+} from '@/lib/transactions';
+
+type NewTransaction = Pick<TrackedTransaction, 'hash' | 'chain' | 'kind' | 'description'>;
+
+interface TransactionContextValue {
+  transactions: TrackedTransaction[]; // The connected wallet's history, newest first
+  // Start tracking a submitted transaction; resolves once it is confirmed, failed or replaced
+  track: (transaction: NewTransaction) => Promise<TrackedTransaction>;
+  clearHistory: () => void;
+}
+
+const TransactionContext = createContext<TransactionContextValue | null>(null);
+
+const STATUS_TOASTS: Record<TrackedTransaction['status'], { title: string; variant?: 'success' | 'destructive' }> = {
+  submitted: { title: 'Transaction submitted' },
+  pending: { title: 'Transaction pending' },
+  confirmed: { title: 'Transaction confirmed', variant: 'success' },
+  failed: { title: 'Transaction failed', variant: 'destructive' },
+  replaced: { title: 'Transaction replaced' },
+};
+
+// Tracks every transaction the app sends through to a receipt, keeps each wallet's history in
+// localStorage and reports status changes as toasts. Unfinished transactions resume on reload.
+export function TransactionProvider({ children }: { children: ReactNode }) {
+  const config = useConfig();
+  const { address } = useAccount();
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const addressRef = useRef(address);
+  const watching = useRef(new Map<Hash, Promise<TrackedTransaction>>());
+
+  // Write to the owner's stored history and mirror it in state if that wallet is still connected
+  const updateHistory = useCallback((owner: string, change: (history: TrackedTransaction[]) => TrackedTransaction[]) => {
+    const history = change(loadTransactionHistory(owner));
+    saveTransactionHistory(owner, history);
+    if (addressRef.current?.toLowerCase() === owner.toLowerCase()) {
+      setTransactions(history);
+    }
+  }, []);
+
+  const setStatus = useCallback((owner: string, hash: Hash, patch: Partial<TrackedTransaction>) => {
+    let updated: TrackedTransaction | undefined;
+    updateHistory(owner, (history) => history.map((transaction) => {
+      if (transaction.hash !== hash) return transaction;
+      updated = { ...transaction, ...patch, updatedAt: Date.now() };
+      return updated;
+    }));
+
+    if (updated && patch.status) {
+      const { title, variant } = STATUS_TOASTS[patch.status];
+      toast({ title, description: updated.error ?? updated.description, variant });
+    }
+    return updated;
+  }, [updateHistory]);
+
+  // Wait for the receipt, following speed-ups and cancellations made in the wallet
+  const watch = useCallback((owner: string, transaction: TrackedTransaction): Promise<TrackedTransaction> => {
+    const existing = watching.current.get(transaction.hash);
+    if (existing) return existing;
+
+    const client = getPublicClient(config, { chainId: CHAINS[transaction.chain].chain.id });
+    const finish = (patch: Partial<TrackedTransaction>) =>
+      setStatus(owner, transaction.hash, patch) ?? { ...transaction, ...patch };
+
+    const promise = (async (): Promise<TrackedTransaction> => {
+      let replacement: Hash | undefined;
+      try {
+        if (!client) {
+          return finish({ status: 'failed', error: `No RPC client for ${transaction.chain}` });
+        }
+
+        // The node knowing about the transaction moves it from submitted to pending
+        if (transaction.status === 'submitted') {
+          client.getTransaction({ hash: transaction.hash })
+            .then(() => setStatus(owner, transaction.hash, { status: 'pending' }))
+            .catch(() => undefined);
+        }
+
+        const receipt = await client.waitForTransactionReceipt({
+          hash: transaction.hash,
+          onReplaced: ({ reason, transaction: replacedBy }) => {
+            replacement = replacedBy.hash;
+            setStatus(owner, transaction.hash, {
+              status: 'replaced',
+              replacedBy: replacedBy.hash,
+              error: reason === 'cancelled' ? 'Cancelled in the wallet' : undefined,
+            });
+          },
+        });
+
+        // A sped-up transaction confirms under its new hash; record that one as the outcome
+        const hash = replacement ?? transaction.hash;
+        const status = receipt.status === 'success' ? 'confirmed' : 'failed';
+        const error = status === 'failed' ? 'Reverted on-chain' : undefined;
+        if (replacement) {
+          updateHistory(owner, (history) => [
+            { ...transaction, hash, status, error, submittedAt: Date.now(), updatedAt: Date.now() },
+            ...history,
+          ]);
+          const { title, variant } = STATUS_TOASTS[status];
+          toast({ title, description: transaction.description, variant });
+          return { ...transaction, hash, status, error };
+        }
+        return finish({ status, error });
+      } catch (error) {
+        console.error('Error waiting for transaction:', error);
+        return finish({ status: 'failed', error: error instanceof Error ? error.message : 'Could not confirm the transaction' });
+      } finally {
+        watching.current.delete(transaction.hash);
+      }
+    })();
+
+    watching.current.set(transaction.hash, promise);
+    return promise;
+  }, [config, setStatus, updateHistory]);
+
+  // Load the connected wallet's history and pick up anything still in flight
+  useEffect(() => {
+    addressRef.current = address;
+    if (!address) {
+      setTransactions([]);
+      return;
+    }
+    const history = loadTransactionHistory(address);
+    setTransactions(history);
+    history.filter((transaction) => !isFinalStatus(transaction.status)).forEach((transaction) => {
+      void watch(address, transaction);
+    });
+  }, [address, watch]);
+
+  const track = useCallback((transaction: NewTransaction) => {
+    const owner = addressRef.current;
+    const tracked: TrackedTransaction = { ...transaction, status: 'submitted', submittedAt: Date.now(), updatedAt: Date.now() };
+    if (!owner) {
+      return Promise.resolve(tracked);
+    }
+
+    updateHistory(owner, (history) => [tracked, ...history.filter((entry) => entry.hash !== tracked.hash)]);
+    toast({ title: STATUS_TOASTS.submitted.title, description: tracked.description });
+    return watch(owner, tracked);
+  }, [updateHistory, watch]);
+
+  const clearHistory = useCallback(() => {
+    const owner = addressRef.current;
+    if (!owner) return;
+    // Keep whatever is still in flight so it can finish updating
+    updateHistory(owner, (history) => history.filter((transaction) => !isFinalStatus(transaction.status)));
+  }, [updateHistory]);
+
+  return (
+    <TransactionContext.Provider value={{ transactions, track, clearHistory }}>
+      {children}
+    </TransactionContext.Provider>
+  );
+}
+
+export function useTransactions(): TransactionContextValue {
+  const context = useContext(TransactionContext);
+  if (!context) {
+    throw new Error('useTransactions must be used within a TransactionProvider');
+  }
+  return context;
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { getAddress, isAddress } from 'viem';
+import { normalize } from 'viem/ens';
+import { useAccount, usePublicClient } from 'wagmi';
+import { mainnet } from 'wagmi/chains';
+import type { Address } from '@/lib/chains';
+import {
+  isSameAddress,
+  loadRegisteredWallets,
+  saveRegisteredWallets,
+  shortenAddress,
+  type LabeledWallet,
+} from '@/lib/wallets';
+
+const STORAGE_KEY = 'yield-snap-watch-address';
+
+// An address being inspected without its keys; ensName is kept when it was entered by name
+export interface WatchedAccount {
+  address: Address;
+  ensName?: string;
+}
+
+interface ViewAccountContextValue {
+  address?: Address; // The account pages show: the watched one, else the connected wallet
+  isWatchOnly: boolean; // Showing someone else's account, so nothing can be signed
+  watched: WatchedAccount | null;
+  // Resolve a 0x address or ENS name and start viewing it; resolves to an error message on failure
+  watch: (input: string) => Promise<string | null>;
+  stopWatching: () => void;
+  wallets: LabeledWallet[]; // Wallets registered for the portfolio
+  // Same input rules as watch; the label defaults to the ENS name or short address
+  addWallet: (input: string, label?: string) => Promise<string | null>;
+  removeWallet: (address: Address) => void;
+  // Everything the portfolio aggregates: the viewed account plus the registered wallets
+  portfolioWallets: LabeledWallet[];
+}
+
+const ViewAccountContext = createContext<ViewAccountContextValue | null>(null);
+
+// Holds the account the scanner and portfolio read from. A watched address overrides the
+// connected wallet until it is cleared, and survives reloads.
+export function ViewAccountProvider({ children }: { children: ReactNode }) {
+  const { address: connectedAddress } = useAccount();
+  // ENS lives on Ethereum mainnet whatever chain is being viewed
+  const ensClient = usePublicClient({ chainId: mainnet.id });
+  const [watched, setWatched] = useState<WatchedAccount | null>(null);
+  const [wallets, setWallets] = useState<LabeledWallet[]>([]);
+
+  // Restore the last watched account and the registered wallets
+  useEffect(() => {
+    setWallets(loadRegisteredWallets());
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      const parsed = saved ? (JSON.parse(saved) as WatchedAccount) : null;
+      if (parsed && isAddress(parsed.address)) {
+        setWatched(parsed);
+      }
+    } catch (error) {
+      console.warn('Could not read watched address:', error);
+    }
+  }, []);
+
+  // Turn a 0x address or ENS name into an account, or an error message
+  const resolveAccount = useCallback(async (input: string): Promise<WatchedAccount | string> => {
+    const value = input.trim();
+    if (!value) return 'Enter an address or ENS name';
+
+    if (isAddress(value)) {
+      return { address: getAddress(value) };
+    }
+    if (!value.includes('.')) {
+      return 'Enter a 0x address or an ENS name like vitalik.eth';
+    }
+    if (!ensClient) return 'ENS lookup is unavailable';
+    try {
+      const ensName = normalize(value);
+      const resolved = await ensClient.getEnsAddress({ name: ensName });
+      return resolved ? { address: resolved, ensName } : `${value} does not resolve to an address`;
+    } catch (error) {
+      console.error('Error resolving ENS name:', error);
+      return `Could not resolve ${value}`;
+    }
+  }, [ensClient]);
+
+  const watch = useCallback(async (input: string): Promise<string | null> => {
+    const next = await resolveAccount(input);
+    if (typeof next === 'string') return next;
+
+    setWatched(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    return null;
+  }, [resolveAccount]);
+
+  const stopWatching = useCallback(() => {
+    setWatched(null);
+    localStorage.removeItem(STORAGE_KEY);
+  }, []);
+
+  const addWallet = useCallback(async (input: string, label?: string): Promise<string | null> => {
+    const account = await resolveAccount(input);
+    if (typeof account === 'string') return account;
+    if (wallets.some((wallet) => isSameAddress(wallet.address, account.address))) {
+      return 'That wallet is already registered';
+    }
+
+    const next = [
+      ...wallets,
+      { ...account, label: label?.trim() || account.ensName || shortenAddress(account.address) },
+    ];
+    setWallets(next);
+    saveRegisteredWallets(next);
+    return null;
+  }, [resolveAccount, wallets]);
+
+  const removeWallet = useCallback((address: Address) => {
+    const next = wallets.filter((wallet) => !isSameAddress(wallet.address, address));
+    setWallets(next);
+    saveRegisteredWallets(next);
+  }, [wallets]);
+
+  // Watching your own connected wallet is just the normal view
+  const isWatchOnly = !!watched && !isSameAddress(watched.address, connectedAddress);
+  const address = watched?.address ?? connectedAddress;
+
+  // The viewed account leads unless it is already registered under its own label
+  const portfolioWallets = useMemo(() => {
+    if (!address || wallets.some((wallet) => isSameAddress(wallet.address, address))) return wallets;
+    const label = isWatchOnly ? watched?.ensName ?? 'Viewed address' : 'Connected wallet';
+    return [{ address, ensName: watched?.ensName, label }, ...wallets];
+  }, [address, isWatchOnly, watched, wallets]);
+
+  return (
+    <ViewAccountContext.Provider
+      value={{
+        address,
+        isWatchOnly,
+        watched,
+        watch,
+        stopWatching,
+        wallets,
+        addWallet,
+        removeWallet,
+        portfolioWallets,
+      }}
+    >
+      {children}
+    </ViewAccountContext.Provider>
+  );
+}
+
+export function useViewAccount(): ViewAccountContextValue {
+  const context = useContext(ViewAccountContext);
+  if (!context) {
+    throw new Error('useViewAccount must be used within a ViewAccountProvider');
+  }
+  return context;
+}
@@ -1,39 +1,77 @@
-'use client';
-
-import { ReactNode, useState, useEffect } from 'react';
-import { WagmiProvider, createConfig, http } from 'wagmi';
-import { polygon } from 'wagmi/chains';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-
-// Create a Wagmi config
-const config = createConfig({
-  chains: [polygon],
-  transports: {
-    [polygon.id]: http(),
-  },
-});
-
-export function WagmiAppProvider({ children }: { children: ReactNode }) {
-  // Create a client
-  const [queryClient] = useState(() => new QueryClient());
-  
-  // Handle hydration
-  const [mounted, setMounted] = useState(false);
-  
-  useEffect(() => {
-    setMounted(true);
-  }, []);
-  
-  // Prevent hydration mismatch by only rendering children when mounted
-  if (!mounted) {
-    return null;
-  }
-  
-  return (
-    <WagmiProvider config={config}>
-      <QueryClientProvider client={queryClient}>
-        {children}
-      </QueryClientProvider>
-    </WagmiProvider>
-  );
+'use client';
+
+import { ReactNode, useState, useEffect } from 'react';
+import { WagmiProvider, createConfig, http } from 'wagmi';
+import { arbitrum, base, mainnet, optimism, polygon } from 'wagmi/chains';
+import { coinbaseWallet, injected, walletConnect } from 'wagmi/connectors';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ChainProvider } from './ChainProvider';
+import { TransactionProvider } from './TransactionProvider';
+import { ViewAccountProvider } from './ViewAccountProvider';
+
+const APP_NAME = 'YieldSnap';
+
+// WalletConnect needs a project ID from cloud.walletconnect.com; without one it is left out
+const walletConnectProjectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID;
+
+// Create a Wagmi config covering every chain in lib/chains. Browser extensions announcing
+// themselves through EIP-6963 are added alongside these connectors automatically.
+const config = createConfig({
+  chains: [polygon, mainnet, arbitrum, optimism, base],
+  connectors: [
+    injected(),
+    ...(walletConnectProjectId
+      ? [
+          walletConnect({
+            projectId: walletConnectProjectId,
+            metadata: {
+              name: APP_NAME,
+              description: 'DeFi yield scanner',
+              url: typeof window !== 'undefined' ? window.location.origin : '',
+              icons: [],
+            },
+          }),
+        ]
+      : []),
+    coinbaseWallet({ appName: APP_NAME }),
+  ],
+  transports: {
+    [polygon.id]: http(),
+    [mainnet.id]: http(),
+    [arbitrum.id]: http(),
+    [optimism.id]: http(),
+    [base.id]: http(),
+  },
+});
+
+export function WagmiAppProvider({ children }: { children: ReactNode }) {
+  // Create a client
+  const [queryClient] = useState(() => new QueryClient());
+  
+  // Handle hydration
+  const [mounted, setMounted] = useState(false);
+  
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+  
+  // Prevent hydration mismatch by only rendering children when mounted
+  if (!mounted) {
+    return null;
+  }
+  
+  return (
+    // Reconnect to the last used connector on load so a refresh doesn't drop the session
+    <WagmiProvider config={config} reconnectOnMount>
+      <QueryClientProvider client={queryClient}>
+        <ChainProvider>
+          <ViewAccountProvider>
+            <TransactionProvider>
+              {children}
+            </TransactionProvider>
+          </ViewAccountProvider>
+        </ChainProvider>
+      </QueryClientProvider>
+    </WagmiProvider>
+  );
 } 
\ No newline at end of file
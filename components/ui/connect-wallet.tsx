@@ -1,59 +1,149 @@
-'use client';
-
-import { useState, useEffect } from 'react';
-import { useAccount, useConnect, useDisconnect } from 'wagmi';
-import { injected } from 'wagmi/connectors';
-import { Button } from './button';
-
-export function ConnectWallet() {
-  // Handle hydration
-  const [mounted, setMounted] = useState(false);
-  const { address, isConnected } = useAccount();
-  const { connect } = useConnect();
-  const { disconnect } = useDisconnect();
-  const [isConnecting, setIsConnecting] = useState(false);
-
-  // Set mounted state after component mounts
-  useEffect(() => {
-    setMounted(true);
-  }, []);
-
-  const handleConnect = async () => {
-    try {
-      setIsConnecting(true);
-      connect({ connector: injected() });
-    } catch (error) {
-      console.error('Error connecting wallet:', error);
-    } finally {
-      setIsConnecting(false);
-    }
-  };
-
-  const handleDisconnect = () => {
-    disconnect();
-  };
-
-  // Render a placeholder during SSR to prevent hydration mismatch
-  if (!mounted) {
-    return <Button>Connect Wallet</Button>;
-  }
-
-  if (isConnected && address) {
-    return (
-      <div className="flex items-center gap-2">
-        <span className="text-sm text-muted-foreground hidden md:inline">
-          {address.slice(0, 6)}...{address.slice(-4)}
-        </span>
-        <Button variant="outline" size="sm" onClick={handleDisconnect}>
-          Disconnect
-        </Button>
-      </div>
-    );
-  }
-
-  return (
-    <Button onClick={handleConnect} disabled={isConnecting}>
-      {isConnecting ? 'Connecting...' : 'Connect Wallet'}
-    </Button>
-  );
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { BaseError, UserRejectedRequestError } from 'viem';
+import {
+  ConnectorAlreadyConnectedError,
+  ProviderNotFoundError,
+  useAccount,
+  useConnect,
+  useDisconnect,
+  type Connector,
+} from 'wagmi';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './dialog';
+import { Button } from './button';
+import { useSelectedChain } from '@/components/providers/ChainProvider';
+
+// Mirrors the check in WagmiAppProvider, which only adds WalletConnect when this is set
+const hasWalletConnect = !!process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID;
+
+// The generic injected connector is only worth showing when no extension announced itself by name
+function getVisibleConnectors(connectors: readonly Connector[]): Connector[] {
+  const hasNamedInjected = connectors.some((connector) => connector.type === 'injected' && connector.id !== 'injected');
+  return connectors.filter((connector) => connector.id !== 'injected' || !hasNamedInjected);
+}
+
+function getConnectorLabel(connector: Connector): string {
+  return connector.id === 'injected' ? 'Browser Wallet' : connector.name;
+}
+
+function describeConnectError(error: unknown, connector: Connector): string {
+  const label = getConnectorLabel(connector);
+  if (error instanceof ProviderNotFoundError) {
+    return `${label} isn't available in this browser. Install it or choose another wallet.`;
+  }
+  if (error instanceof BaseError && error.walk((cause) => cause instanceof UserRejectedRequestError)) {
+    return `The connection request was rejected in ${label}.`;
+  }
+  const message = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : null;
+  return message ? `Could not connect to ${label}: ${message}` : `Could not connect to ${label}.`;
+}
+
+export function ConnectWallet() {
+  // Handle hydration
+  const [mounted, setMounted] = useState(false);
+  const { address, isConnected } = useAccount();
+  const { connectors, connectAsync } = useConnect();
+  const { disconnect } = useDisconnect();
+  const { chain, isWrongNetwork, isSwitching, switchToSelectedChain } = useSelectedChain();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [pendingConnector, setPendingConnector] = useState<string | null>(null);
+  const [connectError, setConnectError] = useState<string | null>(null);
+
+  // Set mounted state after component mounts
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const openPicker = () => {
+    setConnectError(null);
+    setIsPickerOpen(true);
+  };
+
+  const handleConnect = async (connector: Connector) => {
+    setConnectError(null);
+    setPendingConnector(connector.uid);
+    try {
+      await connectAsync({ connector });
+      setIsPickerOpen(false);
+    } catch (error) {
+      if (error instanceof ConnectorAlreadyConnectedError) {
+        setIsPickerOpen(false);
+        return;
+      }
+      console.error('Error connecting wallet:', error);
+      setConnectError(describeConnectError(error, connector));
+    } finally {
+      setPendingConnector(null);
+    }
+  };
+
+  const handleDisconnect = () => {
+    disconnect();
+  };
+
+  // Render a placeholder during SSR to prevent hydration mismatch
+  if (!mounted) {
+    return <Button>Connect Wallet</Button>;
+  }
+
+  if (isConnected && address) {
+    return (
+      <div className="flex items-center gap-2">
+        {isWrongNetwork ? (
+          <Button variant="destructive" size="sm" onClick={() => void switchToSelectedChain()} disabled={isSwitching}>
+            {isSwitching ? 'Switching...' : `Wrong network · Switch to ${chain.name}`}
+          </Button>
+        ) : (
+          <span className="text-sm text-muted-foreground hidden md:inline">
+            {address.slice(0, 6)}...{address.slice(-4)}
+          </span>
+        )}
+        <Button variant="outline" size="sm" onClick={handleDisconnect}>
+          Disconnect
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Button onClick={openPicker}>Connect Wallet</Button>
+
+      <Dialog open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Connect a wallet</DialogTitle>
+            <DialogDescription>Choose how you want to connect to YieldSnap.</DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-col gap-2">
+            {getVisibleConnectors(connectors).map((connector) => (
+              <Button
+                key={connector.uid}
+                variant="outline"
+                className="justify-start"
+                onClick={() => handleConnect(connector)}
+                disabled={pendingConnector !== null}
+              >
+                {connector.icon && (
+                  // Icons are data URIs or wallet-hosted URLs, so they skip the optimizer and need no remotePatterns
+                  <Image src={connector.icon} alt="" width={20} height={20} unoptimized className="h-5 w-5 mr-2" />
+                )}
+                {pendingConnector === connector.uid ? 'Connecting...' : getConnectorLabel(connector)}
+              </Button>
+            ))}
+            {!hasWalletConnect && (
+              <Button variant="outline" className="justify-start" disabled>
+                WalletConnect (set NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID to enable)
+              </Button>
+            )}
+          </div>
+
+          {connectError && <p className="text-sm text-red-500">{connectError}</p>}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
 } 
\ No newline at end of file
@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { Button } from './button';
 import { ConnectWallet } from './connect-wallet';
+import { RecentTransactions } from './recent-transactions';
 import { TrendingUp, BarChart3, Menu, X, Wallet } from 'lucide-react';
 
 export function Navigation() {
@@ -83,7 +84,8 @@ export function Navigation() {
         </div>
         
         {/* Connect Wallet Button */}
-        <div className="hidden md:flex">
+        <div className="hidden md:flex items-center gap-2">
+          <RecentTransactions />
           <ConnectWallet />
         </div>
       </div>
@@ -103,7 +105,8 @@ export function Navigation() {
                 </Button>
               </Link>
             ))}
-            <div className="pt-2 border-t">
+            <div className="pt-2 border-t flex flex-col gap-2">
+              <RecentTransactions />
               <ConnectWallet />
             </div>
           </nav>
@@ -0,0 +1,41 @@
+'use client';
+
+import { useAccount } from 'wagmi';
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from './alert';
+import { Button } from './button';
+import { useSelectedChain } from '@/components/providers/ChainProvider';
+
+// Shown while the connected wallet is on a different chain than the one being viewed.
+// Transactions are blocked until the wallet switches.
+export function NetworkBanner({ className }: { className?: string }) {
+  const { chain: walletChain, chainId } = useAccount();
+  const { chain, isWrongNetwork, isSwitching, switchError, switchToSelectedChain } = useSelectedChain();
+
+  if (!isWrongNetwork) return null;
+
+  const walletChainName = walletChain?.name ?? `an unsupported network (chain ID ${chainId})`;
+
+  return (
+    <Alert variant="destructive" className={className}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Wrong network</AlertTitle>
+      <AlertDescription>
+        <p>
+          Your wallet is on {walletChainName}, but you are viewing {chain.name}. Deposits and withdrawals are
+          disabled until you switch.
+        </p>
+        {switchError && <p className="mt-1">{switchError}</p>}
+        <Button
+          size="sm"
+          variant="destructive"
+          className="mt-3"
+          onClick={() => void switchToSelectedChain()}
+          disabled={isSwitching}
+        >
+          {isSwitching ? 'Check your wallet...' : `Switch to ${chain.name}`}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
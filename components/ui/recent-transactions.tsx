@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { ExternalLink, History } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './dialog';
+import { Badge } from './badge';
+import { Button } from './button';
+import { useTransactions } from '@/components/providers/TransactionProvider';
+import { getExplorerTxUrl, isFinalStatus, type TransactionStatus } from '@/lib/transactions';
+
+const STATUS_BADGES: Record<TransactionStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  submitted: { label: 'Submitted', variant: 'outline' },
+  pending: { label: 'Pending', variant: 'secondary' },
+  confirmed: { label: 'Confirmed', variant: 'default' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  replaced: { label: 'Replaced', variant: 'outline' },
+};
+
+// Navigation button listing the connected wallet's recent transactions with explorer links
+export function RecentTransactions() {
+  const { isConnected } = useAccount();
+  const { transactions, clearHistory } = useTransactions();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!isConnected) return null;
+
+  const inFlight = transactions.filter((transaction) => !isFinalStatus(transaction.status)).length;
+
+  return (
+    <>
+      <Button variant="ghost" className="h-9" onClick={() => setIsOpen(true)} aria-label="Recent transactions">
+        <History className="h-4 w-4 mr-2" />
+        {inFlight > 0 ? `${inFlight} pending` : 'Activity'}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Recent transactions</DialogTitle>
+            <DialogDescription>Transactions sent from this wallet through YieldSnap.</DialogDescription>
+          </DialogHeader>
+
+          {transactions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No transactions yet.</p>
+          ) : (
+            <ul className="max-h-[360px] overflow-y-auto divide-y">
+              {transactions.map((transaction) => {
+                const badge = STATUS_BADGES[transaction.status];
+                const explorerUrl = getExplorerTxUrl(transaction.chain, transaction.hash);
+                return (
+                  <li key={transaction.hash} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{transaction.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(transaction.submittedAt).toLocaleString()}
+                        {transaction.error ? ` · ${transaction.error}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                      {explorerUrl && (
+                        <a
+                          href={explorerUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-muted-foreground hover:text-foreground"
+                          aria-label="View on block explorer"
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {transactions.length > 0 && (
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={clearHistory}>
+                Clear finished
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
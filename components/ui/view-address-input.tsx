@@ -0,0 +1,62 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Eye, X } from 'lucide-react';
+import { Button } from './button';
+import { Input } from './input';
+import { useViewAccount } from '@/components/providers/ViewAccountProvider';
+import { shortenAddress } from '@/lib/wallets';
+
+// Look at any address or ENS name read-only; while one is set it replaces the connected wallet
+export function ViewAddressInput() {
+  const { watched, isWatchOnly, watch, stopWatching } = useViewAccount();
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsResolving(true);
+    const watchError = await watch(input);
+    setIsResolving(false);
+    setError(watchError);
+    if (!watchError) setInput('');
+  };
+
+  if (watched) {
+    return (
+      <div className="flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm">
+        <Eye className="h-4 w-4 text-muted-foreground" />
+        <span>
+          Viewing{' '}
+          <span className="font-medium">
+            {watched.ensName ?? shortenAddress(watched.address)}
+          </span>
+          {/* Viewing the connected wallet's own address keeps transactions enabled */}
+          {isWatchOnly && <span className="text-muted-foreground"> (read-only)</span>}
+        </span>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={stopWatching} aria-label="Stop viewing">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-1">
+      <div className="flex gap-2">
+        <Input
+          value={input}
+          onChange={(event) => setInput(event.target.value)}
+          placeholder="View address or ENS name"
+          className="h-9 w-64"
+          aria-label="View address or ENS name"
+        />
+        <Button type="submit" variant="outline" className="h-9" disabled={isResolving || !input.trim()}>
+          {isResolving ? 'Resolving...' : 'View'}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </form>
+  );
+}
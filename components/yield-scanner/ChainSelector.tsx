@@ -0,0 +1,29 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useSelectedChain } from '@/components/providers/ChainProvider';
+import { CHAINS, SUPPORTED_CHAIN_KEYS, isSupportedChainKey } from '@/lib/chains';
+
+export function ChainSelector() {
+  const { chainKey, setChainKey } = useSelectedChain();
+
+  return (
+    <Select
+      value={chainKey}
+      onValueChange={(value) => {
+        if (isSupportedChainKey(value)) setChainKey(value);
+      }}
+    >
+      <SelectTrigger className="w-[160px]" aria-label="Chain">
+        <SelectValue placeholder="Select chain" />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_CHAIN_KEYS.map((key) => (
+          <SelectItem key={key} value={key}>
+            {CHAINS[key].name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
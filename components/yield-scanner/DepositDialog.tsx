@@ -0,0 +1,199 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { NetworkBanner } from '../ui/network-banner';
+import { useSelectedChain } from '@/components/providers/ChainProvider';
+import { projectYield } from '../education/YieldAdvisor';
+import { estimateGasForDeposit } from '@/lib/services/polygonService';
+import { formatGasCost, formatGasFee, type GasEstimate } from '@/lib/gas';
+import { getOpportunityTokenAddress } from '@/lib/tokens';
+import { ESTIMATED_FEE_RATE } from '@/lib/utils';
+import type { YieldOpportunity } from '@/lib/adapters/types';
+
+interface DepositDialogProps {
+  opportunity: YieldOpportunity;
+  onClose: () => void;
+  onDeposit: (opportunity: YieldOpportunity, amount: number) => void | Promise<void>; // Settles once the wallet has sent it
+}
+
+// Share-of-balance shortcuts shown under the amount input
+const AMOUNT_SHORTCUTS = [
+  { label: '25%', fraction: 0.25 },
+  { label: '50%', fraction: 0.5 },
+  { label: '75%', fraction: 0.75 },
+  { label: 'Max', fraction: 1 },
+];
+
+// Wait for typing to settle before estimating gas for the new amount
+const GAS_ESTIMATE_DEBOUNCE_MS = 500;
+
+// Days the projected yield is shown for
+const PROJECTION_DAYS = [30, 365];
+
+// Pick how much of the wallet balance to deposit, with gas and projected yield for that amount.
+// Starts from the full balance each time it is opened.
+export function DepositDialog({ opportunity, onClose, onDeposit }: DepositDialogProps) {
+  const { address } = useAccount();
+  const { isWrongNetwork } = useSelectedChain();
+  const balance = opportunity.userBalance;
+  const [amount, setAmount] = useState(String(balance));
+  const [gasEstimate, setGasEstimate] = useState<GasEstimate | null | undefined>(opportunity.gasEstimate);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const parsedAmount = Number(amount);
+  const error = !amount || !(parsedAmount > 0)
+    ? 'Enter an amount to deposit'
+    : parsedAmount > balance
+      ? `Amount exceeds your balance of ${balance.toFixed(4)} ${opportunity.symbol}`
+      : null;
+
+  // Re-estimate gas for the entered amount; an approval may or may not be needed depending on it
+  useEffect(() => {
+    if (error || !address) return;
+    let cancelled = false;
+
+    setIsEstimating(true);
+    const timeoutId = setTimeout(async () => {
+      const estimate = await estimateGasForDeposit(
+        opportunity.protocol,
+        getOpportunityTokenAddress(opportunity),
+        parsedAmount,
+        address,
+        opportunity.chain
+      );
+      if (cancelled) return;
+      // Keep the last good estimate if this one failed
+      if (estimate) setGasEstimate(estimate);
+      setIsEstimating(false);
+    }, GAS_ESTIMATE_DEBOUNCE_MS);
+
+    // A superseded or abandoned estimate must not leave the fee marked as updating
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+      setIsEstimating(false);
+    };
+  }, [opportunity, parsedAmount, address, error]);
+
+  // One deposit at a time; a second click while the wallet is prompting would send it twice
+  const handleDeposit = async () => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await onDeposit(opportunity, parsedAmount);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px] bg-gray-900 border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle>Deposit {opportunity.symbol} into {opportunity.protocol}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Wallet balance: {balance.toFixed(4)} {opportunity.symbol} · {opportunity.apr.toFixed(2)}% APR
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="deposit-amount">Amount</Label>
+          <Input
+            id="deposit-amount"
+            type="number"
+            min="0"
+            step="any"
+            value={amount}
+            onChange={(event) => setAmount(event.target.value)}
+          />
+          <div className="flex gap-2">
+            {AMOUNT_SHORTCUTS.map(({ label, fraction }) => (
+              <Button
+                key={label}
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => setAmount(String(balance * fraction))}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <div className="rounded border border-gray-700 bg-gray-800 p-3 text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-gray-400">Fee ({(ESTIMATED_FEE_RATE * 100).toFixed(1)}%):</span>
+            <span>{error ? '—' : `${(parsedAmount * ESTIMATED_FEE_RATE).toFixed(4)} ${opportunity.symbol}`}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Network fee{isEstimating ? ' (updating…)' : ''}:</span>
+            <span>{gasEstimate ? `${formatGasFee(gasEstimate)} (${formatGasCost(gasEstimate)})` : 'Unknown'}</span>
+          </div>
+          {gasEstimate && (
+            <>
+              <div className="flex justify-between text-gray-400">
+                <span>Approval:</span>
+                <span>
+                  {gasEstimate.usesPermit
+                    ? 'Signed permit, no extra transaction'
+                    : gasEstimate.approvalNeeded
+                      ? `${gasEstimate.gasUnits.approve.toLocaleString()} gas`
+                      : 'Not needed'}
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Supply:</span>
+                <span>{gasEstimate.gasUnits.supply.toLocaleString()} gas</span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Gas price:</span>
+                <span>
+                  {gasEstimate.baseFeeGwei.toFixed(2)} + {gasEstimate.priorityFeeGwei.toFixed(2)} gwei tip
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Transactions to confirm:</span>
+                <span>{gasEstimate.transactionCount}</span>
+              </div>
+            </>
+          )}
+        </div>
+
+        {!error && (
+          <div className="rounded border border-gray-700 bg-gray-800 p-3 text-sm space-y-1">
+            {PROJECTION_DAYS.map((days) => {
+              const projection = projectYield(opportunity, parsedAmount, days, gasEstimate);
+              return (
+                <div key={days} className="flex justify-between">
+                  <span className="text-gray-400">Projected earnings ({days} days):</span>
+                  <span className="font-medium">${projection.projectedEarnings.toFixed(2)}</span>
+                </div>
+              );
+            })}
+            <div className="flex justify-between">
+              <span className="text-gray-400">Break-even on gas:</span>
+              <span>{Math.ceil(projectYield(opportunity, parsedAmount, 1, gasEstimate).breakEvenDays)} days</span>
+            </div>
+          </div>
+        )}
+
+        <NetworkBanner />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button disabled={!!error || isWrongNetwork || isSubmitting} onClick={() => void handleDeposit()}>
+            {isSubmitting ? 'Confirm in wallet…' : 'Deposit'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,20 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { usePublicClient, useAccount, useBlockNumber } from 'wagmi';
+import { useState } from 'react';
+import { usePublicClient } from 'wagmi';
 import { formatUnits } from 'viem';
 import { Button } from '../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip';
 import { Dialog, DialogContent, DialogTrigger, DialogTitle } from '../ui/dialog';
-import { estimateGasForDeposit } from '@/lib/services/polygonService';
+import { formatGasCost } from '@/lib/gas';
+import { formatCompactUsd } from '@/lib/utils';
+import type { YieldOpportunity } from '@/lib/adapters/types';
+import type { WalletBalances } from '@/lib/balances';
+import { RateModeToggle, getDisplayRate, type RateMode } from './RateModeToggle';
+import { DepositDialog } from './DepositDialog';
+import { WithdrawDialog } from './WithdrawDialog';
+import { useGasEstimates } from './useGasEstimates';
 import { YieldEducation } from '../education/YieldEducation';
 import { ProtocolInfo } from '../education/ProtocolInfo';
 import { TokenInfo } from '../education/TokenInfo';
@@ -17,89 +24,45 @@ import { YieldStrategyPlanner } from '../education/YieldStrategyPlanner';
 import { Info, HelpCircle, TrendingUp, Calculator, LineChart } from 'lucide-react';
 
 // Types for yield data
-export interface YieldOpportunity {
-  protocol: string;
-  asset: string;
-  symbol: string;
-  apr: number;
-  tvl: number;
-  userBalance: number;
-  depositUrl: string;
-  contractAddress?: string; // Contract address for gas estimation
-  estimatedGasCost?: string; // Estimated gas cost in MATIC
-  estimatedGasFee?: string; // Estimated gas fee in USD
-  estimatedFee?: number; // Estimated fee amount (0.5%)
-}
+export type { YieldOpportunity } from '@/lib/adapters/types';
 
 interface EnhancedYieldTableProps {
   opportunities: YieldOpportunity[];
-  onDeposit: (opportunity: YieldOpportunity) => void;
+  balances?: WalletBalances | null;
+  onDeposit: (opportunity: YieldOpportunity, amount: number) => void | Promise<void>;
+  onWithdraw?: (opportunity: YieldOpportunity, amount: number | 'max') => void | Promise<void>; // Shows Withdraw on supplied rows
   isLoading: boolean;
+  readOnly?: boolean; // Watch-only: positions are shown but Deposit and Withdraw are disabled
 }
 
-export function EnhancedYieldTable({ opportunities, onDeposit, isLoading }: EnhancedYieldTableProps) {
+// Token amount with its USD value underneath, when the price is known
+function BalanceCell({ amount, symbol, priceUsd }: { amount: number; symbol: string; priceUsd?: number }) {
+  return (
+    <div className="flex flex-col items-end">
+      <span className={amount > 0 ? '' : 'text-muted-foreground'}>{amount.toFixed(2)} {symbol}</span>
+      {priceUsd !== undefined && amount > 0 && (
+        <span className="text-xs text-muted-foreground">{formatCompactUsd(amount * priceUsd)}</span>
+      )}
+    </div>
+  );
+}
+
+export function EnhancedYieldTable({ opportunities, balances, onDeposit, onWithdraw, isLoading, readOnly = false }: EnhancedYieldTableProps) {
   const [sortField, setSortField] = useState<keyof YieldOpportunity>('apr');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
-  const [opportunitiesWithEstimates, setOpportunitiesWithEstimates] = useState<YieldOpportunity[]>(opportunities);
+  const [rateMode, setRateMode] = useState<RateMode>('apr');
   const [selectedOpportunity, setSelectedOpportunity] = useState<YieldOpportunity | null>(null);
   const [showStrategyPlanner, setShowStrategyPlanner] = useState<boolean>(false);
+  const [depositOpportunity, setDepositOpportunity] = useState<YieldOpportunity | null>(null);
+  const [withdrawOpportunity, setWithdrawOpportunity] = useState<YieldOpportunity | null>(null);
   const publicClient = usePublicClient();
-  const { address } = useAccount();
-  const { data: blockNumber } = useBlockNumber({ watch: true });
 
-  // Calculate fees and estimate gas costs
-  useEffect(() => {
-    if (!opportunities.length || !address) return;
-
-    const calculateEstimates = async () => {
-      const updatedOpportunities = await Promise.all(
-        opportunities.map(async (opportunity) => {
-          // Calculate 0.5% fee
-          const fee = opportunity.userBalance * 0.005;
-          
-          // Default gas cost
-          let gasCost = "~0.01 MATIC";
-          let gasFeeUSD = "$0.50";
-          
-          try {
-            if (opportunity.contractAddress && opportunity.userBalance > 0) {
-              // Use the real-time gas estimation from Polygon
-              gasCost = await estimateGasForDeposit(
-                opportunity.protocol,
-                opportunity.asset === 'USDC' ? '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174' :
-                opportunity.asset === 'DAI' ? '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063' :
-                opportunity.asset === 'WETH' ? '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619' : '',
-                opportunity.userBalance,
-                address
-              );
-              
-              // Estimate USD value (simplified - in a real app we would fetch MATIC price)
-              const maticPrice = 0.5; // Assuming $0.50 per MATIC
-              const maticAmount = parseFloat(gasCost.replace(' MATIC', '').replace('~', ''));
-              gasFeeUSD = `$${(maticAmount * maticPrice).toFixed(2)}`;
-            }
-          } catch (error) {
-            console.error('Error estimating gas:', error);
-          }
-          
-          return {
-            ...opportunity,
-            estimatedGasCost: gasCost,
-            estimatedGasFee: gasFeeUSD,
-            estimatedFee: fee,
-          };
-        })
-      );
-      
-      setOpportunitiesWithEstimates(updatedOpportunities);
-    };
-    
-    calculateEstimates();
-  }, [opportunities, address, blockNumber]);
+  // Rows with gas estimates for the viewed account merged in as they arrive
+  const opportunitiesWithEstimates = useGasEstimates(opportunities);
 
   const sortedOpportunities = [...opportunitiesWithEstimates].sort((a, b) => {
-    const aValue = a[sortField];
-    const bValue = b[sortField];
+    const aValue = sortField === 'apr' ? getDisplayRate(a, rateMode) : a[sortField];
+    const bValue = sortField === 'apr' ? getDisplayRate(b, rateMode) : b[sortField];
     
     // Handle undefined values
     if (aValue === undefined && bValue === undefined) return 0;
@@ -157,12 +120,20 @@ export function EnhancedYieldTable({ opportunities, onDeposit, isLoading }: Enha
       <YieldEducation />
       <TooltipProvider>
         <Card>
-          <CardHeader>
-            <CardTitle>Yield Opportunities</CardTitle>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div className="space-y-1">
+              <CardTitle>Yield Opportunities</CardTitle>
+              {balances && (
+                <p className="text-sm text-muted-foreground">
+                  In wallet: {formatCompactUsd(balances.totalWalletUsd)} · Deposited: {formatCompactUsd(balances.totalSuppliedUsd)} · Gas: {balances.native.balance.toFixed(4)} {balances.native.symbol}
+                </p>
+              )}
+            </div>
+            <RateModeToggle mode={rateMode} onChange={setRateMode} />
           </CardHeader>
           <CardContent className="p-0 sm:p-6">
             <div className="overflow-x-auto rounded-md border border-border bg-card/50">
-              <table className="w-full border-collapse min-w-[800px] divide-y divide-border">
+              <table className="w-full border-collapse min-w-[1290px] divide-y divide-border">
                 <thead>
                   <tr className="bg-muted/50">
                     <th 
@@ -187,20 +158,56 @@ export function EnhancedYieldTable({ opportunities, onDeposit, isLoading }: Enha
                       className="px-4 py-3 text-right cursor-pointer font-medium w-[120px]"
                       onClick={() => handleSort('apr')}
                     >
-                      APR
+                      {rateMode === 'apy' ? 'APY' : 'APR'}
                       {sortField === 'apr' && (
                         <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
                       )}
                     </th>
                     <th 
-                      className="px-4 py-3 text-right cursor-pointer font-medium w-[150px]"
+                      className="px-4 py-3 text-right cursor-pointer font-medium w-[130px]"
+                      onClick={() => handleSort('totalSupplied')}
+                    >
+                      Total Supplied
+                      {sortField === 'totalSupplied' && (
+                        <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+                      )}
+                    </th>
+                    <th 
+                      className="px-4 py-3 text-right cursor-pointer font-medium w-[120px]"
+                      onClick={() => handleSort('utilization')}
+                    >
+                      Utilization
+                      {sortField === 'utilization' && (
+                        <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+                      )}
+                    </th>
+                    <th 
+                      className="px-4 py-3 text-right cursor-pointer font-medium w-[120px]"
+                      onClick={() => handleSort('availableLiquidity')}
+                    >
+                      Available
+                      {sortField === 'availableLiquidity' && (
+                        <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+                      )}
+                    </th>
+                    <th 
+                      className="px-4 py-3 text-right cursor-pointer font-medium w-[140px]"
                       onClick={() => handleSort('userBalance')}
                     >
-                      Your Balance
+                      In Wallet
                       {sortField === 'userBalance' && (
                         <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
                       )}
                     </th>
+                    <th 
+                      className="px-4 py-3 text-right cursor-pointer font-medium w-[140px]"
+                      onClick={() => handleSort('suppliedBalance')}
+                    >
+                      Deposited
+                      {sortField === 'suppliedBalance' && (
+                        <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+                      )}
+                    </th>
                     <th className="px-4 py-3 text-right font-medium w-[100px]">Fee (0.5%)</th>
                     <th className="px-4 py-3 text-right font-medium w-[200px]">Action</th>
                   </tr>
@@ -216,13 +223,20 @@ export function EnhancedYieldTable({ opportunities, onDeposit, isLoading }: Enha
                       </td>
                       <td className="px-4 py-3">
                         <div className="flex items-center gap-1.5">
-                          <TokenInfo symbol={opportunity.symbol} />
+                          <TokenInfo symbol={opportunity.symbol} chain={opportunity.chain} />
                           <span className="truncate">{opportunity.symbol}</span>
                         </div>
                       </td>
                       <td className="px-4 py-3 text-right whitespace-nowrap">
                         <div className="flex items-center justify-end gap-1">
-                          <span className="font-medium">{opportunity.apr.toFixed(2)}%</span>
+                          <div className="flex flex-col items-end">
+                            <span className="font-medium">{getDisplayRate(opportunity, rateMode).toFixed(2)}%</span>
+                            {!!opportunity.rewardApr && opportunity.rewardApr > 0 && (
+                              <span className="text-xs text-green-500">
+                                incl. +{opportunity.rewardApr.toFixed(2)}% {opportunity.rewardTokens?.map((token) => token.symbol).join(', ')}
+                              </span>
+                            )}
+                          </div>
                           <Tooltip>
                           <TooltipTrigger asChild>
                             <Button variant="ghost" className="h-6 w-6 rounded-full p-0">
@@ -230,12 +244,52 @@ export function EnhancedYieldTable({ opportunities, onDeposit, isLoading }: Enha
                             </Button>
                           </TooltipTrigger>
                           <TooltipContent>
-                            <p>Annual Percentage Rate - the yearly interest you'll earn</p>
+                            <p>
+                              {rateMode === 'apy'
+                                ? "Annual Percentage Yield - the yearly return including compounding"
+                                : "Annual Percentage Rate - the yearly interest you'll earn"}
+                            </p>
+                            {opportunity.baseApr !== undefined && (
+                              <div className="mt-1 text-xs text-gray-400">
+                                <p>Base lending APR: {opportunity.baseApr.toFixed(2)}%</p>
+                                {opportunity.rewardTokens?.map((token) => (
+                                  <p key={token.address}>{token.symbol} rewards: +{token.apr.toFixed(2)}%</p>
+                                ))}
+                              </div>
+                            )}
                           </TooltipContent>
                         </Tooltip>
                         </div>
                       </td>
-                      <td className="px-4 py-3 text-right whitespace-nowrap">{opportunity.userBalance.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {opportunity.totalSupplied !== undefined ? formatCompactUsd(opportunity.totalSupplied) : '-'}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {opportunity.utilization !== undefined ? (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <span className={opportunity.utilization >= 0.9 ? 'font-medium text-red-500' : ''}>
+                                {(opportunity.utilization * 100).toFixed(1)}%
+                              </span>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p>Borrowed: {formatCompactUsd(opportunity.totalBorrowed || 0)}</p>
+                              {opportunity.utilization >= 0.9 && (
+                                <p className="text-xs text-gray-400 mt-1">Nearly drained - withdrawals may have to wait for repayments</p>
+                              )}
+                            </TooltipContent>
+                          </Tooltip>
+                        ) : '-'}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {opportunity.availableLiquidity !== undefined ? formatCompactUsd(opportunity.availableLiquidity) : '-'}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <BalanceCell amount={opportunity.userBalance} symbol={opportunity.symbol} priceUsd={opportunity.priceUsd} />
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <BalanceCell amount={opportunity.suppliedBalance || 0} symbol={opportunity.symbol} priceUsd={opportunity.priceUsd} />
+                      </td>
                       <td className="px-4 py-3 text-right whitespace-nowrap">
                         {opportunity.estimatedFee !== undefined 
                           ? `${opportunity.estimatedFee.toFixed(2)} ${opportunity.symbol}`
@@ -244,7 +298,7 @@ export function EnhancedYieldTable({ opportunities, onDeposit, isLoading }: Enha
                       </td>
                       <td className="px-4 py-3 text-right">
                         <div className="flex items-center justify-end gap-1.5">
-                          <GasFeeExplainer gasFee={opportunity.estimatedGasFee || '$0.50'} />
+                          <GasFeeExplainer estimate={opportunity.gasEstimate} />
                           
                           <Tooltip>
                             <TooltipTrigger asChild>
@@ -291,17 +345,48 @@ export function EnhancedYieldTable({ opportunities, onDeposit, isLoading }: Enha
                               <Button
                                 size="sm"
                                 className="h-8 px-3 text-xs md:text-sm"
-                                onClick={() => onDeposit(opportunity)}
-                                disabled={opportunity.userBalance <= 0}
+                                onClick={() => setDepositOpportunity(opportunity)}
+                                disabled={readOnly || opportunity.userBalance <= 0 || opportunity.depositsDisabled}
                               >
                                 Deposit
                               </Button>
                             </TooltipTrigger>
                             <TooltipContent>
-                              <p>Gas Cost: {opportunity.estimatedGasCost || 'Unknown'}</p>
+                              {opportunity.depositsDisabled && (
+                                <p className="text-xs text-amber-500 mb-1">This market is not accepting deposits right now</p>
+                              )}
+                              <p>Gas Cost: {opportunity.gasEstimate ? formatGasCost(opportunity.gasEstimate) : 'Unknown'}</p>
+                              {opportunity.gasEstimate?.usesPermit ? (
+                                <p className="text-xs text-gray-400 mt-1">
+                                  Approval is signed, not sent: one transaction instead of two
+                                </p>
+                              ) : opportunity.gasEstimate?.approvalNeeded && (
+                                <p className="text-xs text-gray-400 mt-1">Includes a one-time token approval</p>
+                              )}
                               <p className="text-xs text-gray-400 mt-1">Click the lightning icon to learn more</p>
                             </TooltipContent>
                           </Tooltip>
+
+                          {onWithdraw && (opportunity.suppliedBalance || 0) > 0 && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-8 px-3 text-xs md:text-sm"
+                                  onClick={() => setWithdrawOpportunity(opportunity)}
+                                  disabled={readOnly}
+                                >
+                                  Withdraw
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                <p>
+                                  Gas Cost: {opportunity.withdrawGasEstimate ? formatGasCost(opportunity.withdrawGasEstimate) : 'Unknown'}
+                                </p>
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -313,6 +398,29 @@ export function EnhancedYieldTable({ opportunities, onDeposit, isLoading }: Enha
         </Card>
       </TooltipProvider>
       
+      {depositOpportunity && (
+        <DepositDialog
+          opportunity={depositOpportunity}
+          onClose={() => setDepositOpportunity(null)}
+          onDeposit={async (opportunity, amount) => {
+            // Stay open until the wallet has sent the deposit; the transaction toasts take over from there
+            await onDeposit(opportunity, amount);
+            setDepositOpportunity(null);
+          }}
+        />
+      )}
+      {withdrawOpportunity && onWithdraw && (
+        <WithdrawDialog
+          opportunity={withdrawOpportunity}
+          onClose={() => setWithdrawOpportunity(null)}
+          onWithdraw={async (opportunity, amount) => {
+            // Stay open until the wallet has sent the withdrawal; the transaction toasts take over from there
+            await onWithdraw(opportunity, amount);
+            setWithdrawOpportunity(null);
+          }}
+        />
+      )}
+      
       {/* Yield Advisor Dialog */}
       {selectedOpportunity && !showStrategyPlanner && (
         <Dialog open={!!selectedOpportunity} onOpenChange={(open) => !open && setSelectedOpportunity(null)}>
@@ -1,7 +1,6 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { useAccount } from 'wagmi';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../ui/card';
 import { Button } from '../ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip';
@@ -58,6 +57,8 @@ const SelectContent: any = ({ children, ...props }: any) => <div style={{ displa
 const SelectItem: any = ({ children, value, ...props }: any) => <div data-value={value} {...props}>{children}</div>; // Data structure for options
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { DefiLlamaPoolFinder } from './DefiLlamaPoolFinder';
+import { ChainSelector } from './ChainSelector';
+import { useSelectedChain } from '@/components/providers/ChainProvider';
 import { Info, HelpCircle, TrendingUp, ArrowUpRight, ExternalLink, Shield, DollarSign, BarChart3 } from 'lucide-react';
 
 
@@ -120,9 +121,11 @@ export function LiquidityPairScanner({ onPairSelect }: LiquidityPairScannerProps
   const [liquidityPairs, setLiquidityPairs] = useState<LiquidityPair[]>([]);
   const [filteredPairs, setFilteredPairs] = useState<LiquidityPair[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isSampleData, setIsSampleData] = useState<boolean>(false);
   const [selectedPair, setSelectedPair] = useState<LiquidityPair | null>(null);
   const [showProfitCalculator, setShowProfitCalculator] = useState<boolean>(false);
-  const { address } = useAccount();
+  const { chain } = useSelectedChain();
 
   // Filter settings
   const [riskLevel, setRiskLevel] = useState<string>('all');
@@ -137,8 +140,9 @@ export function LiquidityPairScanner({ onPairSelect }: LiquidityPairScannerProps
   // Fetch liquidity pairs data
   const fetchLiquidityPairs = async () => {
     setIsLoading(true);
+    setLoadError(null);
     try {
-      const params = new URLSearchParams();
+      const params = new URLSearchParams({ chain: chain.key });
       if (riskLevel !== 'all') params.append('riskLevel', riskLevel);
       if (minTvl > 0) params.append('minTvl', minTvl.toString());
       if (minApr > 0) params.append('minApr', minApr.toString());
@@ -149,15 +153,20 @@ export function LiquidityPairScanner({ onPairSelect }: LiquidityPairScannerProps
       if (minQualityScore > 0) params.append('minQualityScore', minQualityScore.toString());
 
       const response = await fetch(`/api/polygon/liquidity-pairs?${params.toString()}`);
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error('Failed to fetch liquidity pairs');
+        // The API explains why pairs are unavailable, so show that to the user
+        throw new Error(data.details ? `${data.error}. ${data.details}.` : data.error || 'Failed to fetch liquidity pairs');
       }
-      const data = await response.json();
       setLiquidityPairs(data.pairs);
+      setIsSampleData(!!data.isSampleData);
       // No need to sort again as the API already sorts based on the sortBy parameter
       setFilteredPairs(data.pairs);
     } catch (error) {
       console.error('Error fetching liquidity pairs:', error);
+      setLiquidityPairs([]);
+      setFilteredPairs([]);
+      setLoadError(error instanceof Error ? error.message : 'Failed to fetch liquidity pairs');
     } finally {
       setIsLoading(false);
     }
@@ -294,10 +303,10 @@ export function LiquidityPairScanner({ onPairSelect }: LiquidityPairScannerProps
     }
   };
 
-  // Load initial data
+  // Load initial data, and again whenever the chain changes
   useEffect(() => {
     fetchLiquidityPairs();
-  }, []);
+  }, [chain.key]);
 
   // Update sorting when sort criteria changes
   useEffect(() => {
@@ -309,14 +318,22 @@ export function LiquidityPairScanner({ onPairSelect }: LiquidityPairScannerProps
   return (
     <TooltipProvider>
       <Card className="w-full bg-card">
-        <CardHeader>
-          <CardTitle className="text-xl flex items-center">
-            <BarChart3 className="h-5 w-5 mr-2" />
-            Liquidity Pair Scanner
-          </CardTitle>
-          <CardDescription>
-            Find and analyze liquidity pairs with low to medium risk for yield farming
-          </CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-xl flex items-center">
+              <BarChart3 className="h-5 w-5 mr-2" />
+              Liquidity Pair Scanner
+            </CardTitle>
+            <CardDescription>
+              Find and analyze liquidity pairs with low to medium risk for yield farming on {chain.name}
+            </CardDescription>
+            {isSampleData && (
+              <p className="text-xs font-medium text-amber-500">
+                Sample data: live liquidity pairs are not available yet
+              </p>
+            )}
+          </div>
+          <ChainSelector />
         </CardHeader>
         <CardContent className="p-0 sm:p-6">
           <div className="mb-6 bg-muted/50 p-4 rounded-md">
@@ -454,6 +471,12 @@ export function LiquidityPairScanner({ onPairSelect }: LiquidityPairScannerProps
                       Loading liquidity pairs...
                     </td>
                   </tr>
+                ) : loadError ? (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-8 text-center text-muted-foreground">
+                      {loadError}
+                    </td>
+                  </tr>
                 ) : filteredPairs.length === 0 ? (
                   <tr>
                     <td colSpan={8} className="px-4 py-8 text-center">
@@ -0,0 +1,39 @@
+'use client';
+
+import { Button } from '../ui/button';
+import type { YieldOpportunity } from '@/lib/adapters/types';
+
+export type RateMode = 'apr' | 'apy';
+
+// Rate shown for an opportunity in the given mode; falls back to APR when no APY is reported
+export function getDisplayRate(opportunity: YieldOpportunity, mode: RateMode): number {
+  return mode === 'apy' ? opportunity.apy ?? opportunity.apr : opportunity.apr;
+}
+
+interface RateModeToggleProps {
+  mode: RateMode;
+  onChange: (mode: RateMode) => void;
+}
+
+export function RateModeToggle({ mode, onChange }: RateModeToggleProps) {
+  return (
+    <div className="flex items-center gap-1 rounded-md border border-border p-0.5" role="group" aria-label="Rate display">
+      <Button
+        size="sm"
+        variant={mode === 'apr' ? 'default' : 'ghost'}
+        className="h-7 px-3 text-xs"
+        onClick={() => onChange('apr')}
+      >
+        APR
+      </Button>
+      <Button
+        size="sm"
+        variant={mode === 'apy' ? 'default' : 'ghost'}
+        className="h-7 px-3 text-xs"
+        onClick={() => onChange('apy')}
+      >
+        APY
+      </Button>
+    </div>
+  );
+}
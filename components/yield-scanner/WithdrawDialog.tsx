@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { NetworkBanner } from '../ui/network-banner';
+import { useSelectedChain } from '@/components/providers/ChainProvider';
+import { formatGasCost, formatGasFee } from '@/lib/gas';
+import type { YieldOpportunity } from '@/lib/adapters/types';
+
+interface WithdrawDialogProps {
+  opportunity: YieldOpportunity;
+  onClose: () => void;
+  onWithdraw: (opportunity: YieldOpportunity, amount: number | 'max') => void | Promise<void>; // Settles once the wallet has sent it
+}
+
+// Pick how much of a supplied position to take back out; "Max" exits the whole position.
+// Starts from the full position each time it is opened.
+export function WithdrawDialog({ opportunity, onClose, onWithdraw }: WithdrawDialogProps) {
+  const { isWrongNetwork } = useSelectedChain();
+  const supplied = opportunity.suppliedBalance || 0;
+  const [amount, setAmount] = useState(String(supplied));
+  const [isMax, setIsMax] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const parsedAmount = Number(amount);
+  const error = !amount || !(parsedAmount > 0)
+    ? 'Enter an amount to withdraw'
+    : parsedAmount > supplied
+      ? `You have ${supplied.toFixed(4)} ${opportunity.symbol} supplied`
+      : null;
+  const gasEstimate = opportunity.withdrawGasEstimate;
+
+  // One withdrawal at a time; a second click while the wallet is prompting would send it twice
+  const handleWithdraw = async () => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await onWithdraw(opportunity, isMax ? 'max' : parsedAmount);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[420px] bg-gray-900 border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle>Withdraw {opportunity.symbol} from {opportunity.protocol}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Supplied: {supplied.toFixed(4)} {opportunity.symbol}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="withdraw-amount">Amount</Label>
+          <div className="flex gap-2">
+            <Input
+              id="withdraw-amount"
+              type="number"
+              min="0"
+              step="any"
+              value={amount}
+              onChange={(event) => {
+                setAmount(event.target.value);
+                setIsMax(false);
+              }}
+            />
+            <Button
+              variant="outline"
+              onClick={() => {
+                setAmount(String(supplied));
+                setIsMax(true);
+              }}
+            >
+              Max
+            </Button>
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <p className="text-sm text-gray-400">
+            Estimated gas: {gasEstimate ? `${formatGasFee(gasEstimate)} (${formatGasCost(gasEstimate)})` : 'Unknown'}
+          </p>
+        </div>
+
+        <NetworkBanner />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            disabled={!!error || isWrongNetwork || isSubmitting}
+            onClick={() => void handleWithdraw()}
+          >
+            {isSubmitting ? 'Confirm in wallet…' : 'Withdraw'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useViewAccount } from '@/components/providers/ViewAccountProvider';
+import { estimateGasForOpportunities, getOpportunityKey, type OpportunityGasEstimates } from '@/lib/services/polygonService';
+import { GAS_ESTIMATE_REFRESH_MS } from '@/lib/gas';
+import { ESTIMATED_FEE_RATE } from '@/lib/utils';
+import type { YieldOpportunity } from '@/lib/adapters/types';
+
+// The opportunities with deposit and withdraw gas estimates for the viewed account merged in.
+// Estimates are fetched in batches and refreshed on a timer rather than every block; rows always
+// follow the latest opportunities, and estimates fill in once they arrive.
+export function useGasEstimates(opportunities: YieldOpportunity[]): YieldOpportunity[] {
+  const { address } = useViewAccount();
+  const [gasEstimates, setGasEstimates] = useState<Record<string, OpportunityGasEstimates>>({});
+
+  // Estimates belong to the viewed account; drop them when it changes
+  useEffect(() => {
+    setGasEstimates({});
+  }, [address]);
+
+  useEffect(() => {
+    if (!opportunities.length || !address) return;
+    let cancelled = false;
+
+    const calculateEstimates = async () => {
+      const estimates = await estimateGasForOpportunities(opportunities, address);
+      if (!cancelled) setGasEstimates(estimates);
+    };
+
+    calculateEstimates();
+    const intervalId = setInterval(calculateEstimates, GAS_ESTIMATE_REFRESH_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [opportunities, address]);
+
+  return opportunities.map((opportunity) => {
+    const estimate = gasEstimates[getOpportunityKey(opportunity)];
+    return {
+      ...opportunity,
+      gasEstimate: estimate?.deposit ?? opportunity.gasEstimate,
+      withdrawGasEstimate: estimate?.withdraw ?? opportunity.withdrawGasEstimate,
+      estimatedFee: opportunity.userBalance * ESTIMATED_FEE_RATE,
+    };
+  });
+}
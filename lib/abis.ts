@@ -0,0 +1,343 @@
+// Shared contract ABIs used by the server routes and yield source adapters
+
+// ERC20 ABI for balance, allowance and approval calls
+export const ERC20_ABI = [
+  {
+    name: 'balanceOf',
+    type: 'function',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'decimals',
+    type: 'function',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'symbol',
+    type: 'function',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'allowance',
+    type: 'function',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' }
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'approve',
+    type: 'function',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+  },
+] as const;
+
+// EIP-2612 reads needed to sign a permit
+export const ERC20_PERMIT_ABI = [
+  {
+    name: 'name',
+    type: 'function',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'nonces',
+    type: 'function',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'DOMAIN_SEPARATOR',
+    type: 'function',
+    inputs: [],
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+  },
+] as const;
+
+// Aave UI Data Provider ABI (simplified for what we need)
+export const AAVE_UI_DATA_PROVIDER_ABI = [
+  {
+    name: 'getReservesData',
+    type: 'function',
+    inputs: [
+      { name: 'provider', type: 'address' }
+    ],
+    outputs: [
+      {
+        type: 'tuple[]',
+        components: [
+          { name: 'underlyingAsset', type: 'address' },
+          { name: 'name', type: 'string' },
+          { name: 'symbol', type: 'string' },
+          { name: 'decimals', type: 'uint256' },
+          { name: 'baseLTVasCollateral', type: 'uint256' },
+          { name: 'reserveLiquidationThreshold', type: 'uint256' },
+          { name: 'reserveLiquidationBonus', type: 'uint256' },
+          { name: 'reserveFactor', type: 'uint256' },
+          { name: 'usageAsCollateralEnabled', type: 'bool' },
+          { name: 'borrowingEnabled', type: 'bool' },
+          { name: 'stableBorrowRateEnabled', type: 'bool' },
+          { name: 'isActive', type: 'bool' },
+          { name: 'isFrozen', type: 'bool' },
+          { name: 'liquidityIndex', type: 'uint128' },
+          { name: 'variableBorrowIndex', type: 'uint128' },
+          { name: 'liquidityRate', type: 'uint128' },
+          { name: 'variableBorrowRate', type: 'uint128' },
+          { name: 'stableBorrowRate', type: 'uint128' },
+          { name: 'lastUpdateTimestamp', type: 'uint40' },
+          { name: 'aTokenAddress', type: 'address' },
+          { name: 'stableDebtTokenAddress', type: 'address' },
+          { name: 'variableDebtTokenAddress', type: 'address' },
+          { name: 'interestRateStrategyAddress', type: 'address' },
+          { name: 'availableLiquidity', type: 'uint256' },
+          { name: 'totalPrincipalStableDebt', type: 'uint256' },
+          { name: 'averageStableRate', type: 'uint256' },
+          { name: 'stableDebtLastUpdateTimestamp', type: 'uint256' },
+          { name: 'totalScaledVariableDebt', type: 'uint256' },
+          { name: 'priceInMarketReferenceCurrency', type: 'uint256' },
+          { name: 'priceOracle', type: 'address' },
+          { name: 'variableRateSlope1', type: 'uint256' },
+          { name: 'variableRateSlope2', type: 'uint256' },
+          { name: 'stableRateSlope1', type: 'uint256' },
+          { name: 'stableRateSlope2', type: 'uint256' },
+          { name: 'baseStableBorrowRate', type: 'uint256' },
+          { name: 'baseVariableBorrowRate', type: 'uint256' },
+          { name: 'optimalUsageRatio', type: 'uint256' },
+          { name: 'isPaused', type: 'bool' },
+          { name: 'isSiloedBorrowing', type: 'bool' },
+          { name: 'accruedToTreasury', type: 'uint128' },
+          { name: 'unbacked', type: 'uint128' },
+          { name: 'isolationModeTotalDebt', type: 'uint128' },
+          { name: 'flashLoanEnabled', type: 'bool' },
+          { name: 'debtCeiling', type: 'uint256' },
+          { name: 'debtCeilingDecimals', type: 'uint256' },
+          { name: 'eModeCategoryId', type: 'uint8' },
+          { name: 'borrowCap', type: 'uint256' },
+          { name: 'supplyCap', type: 'uint256' },
+          { name: 'eModeLtv', type: 'uint16' },
+          { name: 'eModeLiquidationThreshold', type: 'uint16' },
+          { name: 'eModeLiquidationBonus', type: 'uint16' },
+          { name: 'eModePriceSource', type: 'address' },
+          { name: 'eModeLabel', type: 'string' },
+          { name: 'borrowableInIsolation', type: 'bool' }
+        ]
+      },
+      {
+        type: 'tuple',
+        components: [
+          { name: 'marketReferenceCurrencyUnit', type: 'uint256' },
+          { name: 'marketReferenceCurrencyPriceInUsd', type: 'int256' },
+          { name: 'networkBaseTokenPriceInUsd', type: 'int256' },
+          { name: 'networkBaseTokenPriceDecimals', type: 'uint8' }
+        ]
+      }
+    ],
+    stateMutability: 'view',
+  }
+] as const;
+
+// Aave UI Incentive Data Provider ABI (reserve incentives only)
+const AAVE_REWARD_INFO_COMPONENTS = [
+  { name: 'rewardTokenSymbol', type: 'string' },
+  { name: 'rewardTokenAddress', type: 'address' },
+  { name: 'rewardOracleAddress', type: 'address' },
+  { name: 'emissionPerSecond', type: 'uint256' },
+  { name: 'incentivesLastUpdateTimestamp', type: 'uint256' },
+  { name: 'tokenIncentivesIndex', type: 'uint256' },
+  { name: 'emissionEndTimestamp', type: 'uint256' },
+  { name: 'rewardPriceFeed', type: 'int256' },
+  { name: 'rewardTokenDecimals', type: 'uint8' },
+  { name: 'precision', type: 'uint8' },
+  { name: 'priceFeedDecimals', type: 'uint8' },
+] as const;
+
+const AAVE_INCENTIVE_DATA_COMPONENTS = [
+  { name: 'tokenAddress', type: 'address' },
+  { name: 'incentiveControllerAddress', type: 'address' },
+  { name: 'rewardsTokenInformation', type: 'tuple[]', components: AAVE_REWARD_INFO_COMPONENTS },
+] as const;
+
+export const AAVE_UI_INCENTIVE_DATA_PROVIDER_ABI = [
+  {
+    name: 'getReservesIncentivesData',
+    type: 'function',
+    inputs: [
+      { name: 'provider', type: 'address' }
+    ],
+    outputs: [
+      {
+        type: 'tuple[]',
+        components: [
+          { name: 'underlyingAsset', type: 'address' },
+          { name: 'aIncentiveData', type: 'tuple', components: AAVE_INCENTIVE_DATA_COMPONENTS },
+          { name: 'vIncentiveData', type: 'tuple', components: AAVE_INCENTIVE_DATA_COMPONENTS },
+        ]
+      }
+    ],
+    stateMutability: 'view',
+  }
+] as const;
+
+// Comet ABI (only the read functions we need)
+export const COMET_ABI = [
+  {
+    name: 'getUtilization',
+    type: 'function',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint64' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'getSupplyRate',
+    type: 'function',
+    inputs: [{ name: 'utilization', type: 'uint256' }],
+    outputs: [{ name: '', type: 'uint64' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'totalSupply',
+    type: 'function',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'totalBorrow',
+    type: 'function',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'decimals',
+    type: 'function',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'baseTrackingSupplySpeed',
+    type: 'function',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'trackingIndexScale',
+    type: 'function',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'baseTokenPriceFeed',
+    type: 'function',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'getPrice',
+    type: 'function',
+    inputs: [{ name: 'priceFeed', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'balanceOf',
+    type: 'function',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    name: 'supply',
+    type: 'function',
+    inputs: [
+      { name: 'asset', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    name: 'withdraw',
+    type: 'function',
+    inputs: [
+      { name: 'asset', type: 'address' },
+      { name: 'amount', type: 'uint256' }
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+] as const;
+
+// Aave V3 Pool ABI for supplying to and withdrawing from a reserve
+export const AAVE_POOL_ABI = [
+  {
+    name: 'supplyWithPermit',
+    type: 'function',
+    inputs: [
+      { name: 'asset', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'onBehalfOf', type: 'address' },
+      { name: 'referralCode', type: 'uint16' },
+      { name: 'deadline', type: 'uint256' },
+      { name: 'permitV', type: 'uint8' },
+      { name: 'permitR', type: 'bytes32' },
+      { name: 'permitS', type: 'bytes32' }
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    name: 'supply',
+    type: 'function',
+    inputs: [
+      { name: 'asset', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'onBehalfOf', type: 'address' },
+      { name: 'referralCode', type: 'uint16' }
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    name: 'withdraw',
+    type: 'function',
+    inputs: [
+      { name: 'asset', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'to', type: 'address' }
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+] as const;
+
+// Multicall3 helper for reading the native balance inside a multicall
+export const MULTICALL3_ABI = [
+  {
+    name: 'getEthBalance',
+    type: 'function',
+    inputs: [{ name: 'addr', type: 'address' }],
+    outputs: [{ name: 'balance', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+] as const;
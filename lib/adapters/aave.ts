@@ -0,0 +1,182 @@
+import { formatUnits } from 'viem';
+import { AAVE_UI_INCENTIVE_DATA_PROVIDER_ABI, ERC20_ABI } from '@/lib/abis';
+import { getAaveReserveUrl } from '@/lib/chains';
+import { getTokenPriceUsd, readAaveReserves, type PriceSnapshot } from '@/lib/pricing';
+import { aprToApy } from '@/lib/utils';
+import type {
+  AdapterContext,
+  MarketRates,
+  RewardTokenApr,
+  UserPosition,
+  YieldMarket,
+  YieldSourceAdapter,
+} from './types';
+
+type AaveReservesData = Awaited<ReturnType<typeof readAaveReserves>>;
+
+// getReservesData returns every reserve at once, so read it once per request
+const reservesByContext = new WeakMap<AdapterContext, Promise<AaveReservesData>>();
+
+function loadReserves(ctx: AdapterContext): Promise<AaveReservesData> {
+  let reserves = reservesByContext.get(ctx);
+  if (!reserves) {
+    reserves = readAaveReserves(ctx.client, ctx.chain);
+    reservesByContext.set(ctx, reserves);
+  }
+  return reserves;
+}
+
+// Aave stores rates and indexes in ray units (10^27)
+const RAY = BigInt(10) ** BigInt(27);
+
+const SECONDS_PER_YEAR = 31536000;
+
+// Helper function to convert Aave's liquidity rate to APR and APY (both in %)
+function convertAaveRate(liquidityRate: bigint): { apr: number; apy: number } {
+  // Aave rates are annualized and expressed in ray units (10^27).
+  // formatUnits keeps the fractional digits that integer BigInt division drops.
+  const apr = Number(formatUnits(liquidityRate, 27)) * 100;
+
+  // Interest accrues every second, which is what app.aave.com shows as APY
+  return { apr, apy: aprToApy(apr, SECONDS_PER_YEAR) };
+}
+
+// Fields of the incentive data provider's RewardInfo struct that we use
+interface SupplyRewardInfo {
+  rewardTokenSymbol: string;
+  rewardTokenAddress: `0x${string}`;
+  emissionPerSecond: bigint;
+  emissionEndTimestamp: bigint;
+  rewardPriceFeed: bigint;
+  rewardTokenDecimals: number;
+  priceFeedDecimals: number;
+}
+
+// Supplier reward emissions per reserve, keyed by lowercase underlying address
+async function readSupplyIncentives(ctx: AdapterContext): Promise<Map<string, readonly SupplyRewardInfo[]>> {
+  const incentives = await ctx.client.readContract({
+    address: ctx.chain.aave.uiIncentiveDataProvider,
+    abi: AAVE_UI_INCENTIVE_DATA_PROVIDER_ABI,
+    functionName: 'getReservesIncentivesData',
+    args: [ctx.chain.aave.poolAddressesProvider],
+  });
+  return new Map(
+    incentives.map((reserve) => [
+      reserve.underlyingAsset.toLowerCase(),
+      reserve.aIncentiveData.rewardsTokenInformation,
+    ])
+  );
+}
+
+// Convert reward emissions into an APR relative to the reserve's total supply
+function calculateRewardAprs(
+  rewards: readonly SupplyRewardInfo[],
+  totalSuppliedUsd: number,
+  prices: PriceSnapshot
+): RewardTokenApr[] {
+  const now = BigInt(Math.floor(Date.now() / 1000));
+
+  return rewards
+    .filter((reward) => reward.emissionPerSecond > BigInt(0) && reward.emissionEndTimestamp > now)
+    .map((reward) => {
+      // Prefer the Aave oracle; fall back to the price feed bundled with the reward info
+      const priceUsd = getTokenPriceUsd(prices, reward.rewardTokenAddress)
+        ?? Number(formatUnits(reward.rewardPriceFeed, reward.priceFeedDecimals));
+      const emissionPerYear = Number(formatUnits(reward.emissionPerSecond, reward.rewardTokenDecimals)) * SECONDS_PER_YEAR;
+
+      return {
+        symbol: reward.rewardTokenSymbol,
+        address: reward.rewardTokenAddress,
+        apr: totalSuppliedUsd > 0 ? (emissionPerYear * priceUsd / totalSuppliedUsd) * 100 : 0,
+      };
+    });
+}
+
+export const aaveAdapter: YieldSourceAdapter = {
+  id: 'aave-v3',
+  protocol: 'Aave',
+
+  async listMarkets(ctx) {
+    const { reservesData } = await loadReserves(ctx);
+
+    // Frozen and paused reserves stay listed so positions in them remain visible and withdrawable
+    return reservesData
+      .filter((reserve) => reserve.isActive)
+      .map((reserve): YieldMarket => ({
+        id: reserve.underlyingAsset.toLowerCase(),
+        symbol: reserve.symbol,
+        tokenAddress: reserve.underlyingAsset,
+        decimals: Number(reserve.decimals),
+        contractAddress: ctx.chain.aave.pool,
+        depositUrl: getAaveReserveUrl(ctx.chain, reserve.underlyingAsset),
+        depositsDisabled: reserve.isFrozen || reserve.isPaused,
+      }));
+  },
+
+  async fetchRates(ctx, markets) {
+    const [{ reservesData, prices }, incentives] = await Promise.all([
+      loadReserves(ctx),
+      // Missing incentives shouldn't hide the base rates
+      readSupplyIncentives(ctx).catch((error) => {
+        console.error('Error fetching Aave incentives:', error);
+        return new Map<string, readonly SupplyRewardInfo[]>();
+      }),
+    ]);
+    const rates: Record<string, MarketRates> = {};
+
+    for (const market of markets) {
+      const reserve = reservesData.find((r) => r.underlyingAsset.toLowerCase() === market.id);
+      if (!reserve) continue;
+
+      // Variable debt is stored scaled; multiply by the borrow index (ray) to get current debt
+      const totalVariableDebt = (reserve.totalScaledVariableDebt * reserve.variableBorrowIndex) / RAY;
+      const totalDebt = totalVariableDebt + reserve.totalPrincipalStableDebt;
+
+      // Convert token amounts to USD
+      const priceUsd = getTokenPriceUsd(prices, market.id) ?? 0;
+      const availableLiquidity = Number(formatUnits(reserve.availableLiquidity, market.decimals)) * priceUsd;
+      const totalBorrowed = Number(formatUnits(totalDebt, market.decimals)) * priceUsd;
+      const totalSupplied = availableLiquidity + totalBorrowed;
+
+      rates[market.id] = {
+        ...convertAaveRate(reserve.liquidityRate),
+        tvl: totalSupplied,
+        priceUsd,
+        totalSupplied,
+        totalBorrowed,
+        availableLiquidity,
+        utilization: totalSupplied > 0 ? totalBorrowed / totalSupplied : 0,
+        rewardTokens: calculateRewardAprs(incentives.get(market.id) || [], totalSupplied, prices),
+      };
+    }
+
+    return rates;
+  },
+
+  async fetchUserPositions(ctx, markets, user) {
+    const { reservesData } = await loadReserves(ctx);
+    const aTokens = new Map(
+      reservesData.map((reserve) => [reserve.underlyingAsset.toLowerCase(), reserve.aTokenAddress])
+    );
+
+    // Wallet balance and aToken balance for every market in one multicall
+    const results = await ctx.client.multicall({
+      contracts: markets.flatMap((market) => [
+        { address: market.tokenAddress, abi: ERC20_ABI, functionName: 'balanceOf', args: [user] },
+        { address: aTokens.get(market.id)!, abi: ERC20_ABI, functionName: 'balanceOf', args: [user] },
+      ] as const),
+    });
+
+    const positions: Record<string, UserPosition> = {};
+    markets.forEach((market, index) => {
+      const wallet = results[index * 2];
+      const supplied = results[index * 2 + 1];
+      positions[market.id] = {
+        walletBalance: wallet.status === 'success' ? Number(formatUnits(wallet.result, market.decimals)) : 0,
+        suppliedBalance: supplied.status === 'success' ? Number(formatUnits(supplied.result, market.decimals)) : 0,
+      };
+    });
+
+    return positions;
+  },
+};
@@ -0,0 +1,145 @@
+import { formatUnits } from 'viem';
+import { COMET_ABI, ERC20_ABI } from '@/lib/abis';
+import { getCompoundMarketUrl } from '@/lib/chains';
+import { aprToApy } from '@/lib/utils';
+import type { AdapterContext, MarketRates, UserPosition, YieldMarket, YieldSourceAdapter } from './types';
+
+const SECONDS_PER_YEAR = 31536000;
+
+// Comet prices are USD with 8 decimals
+const COMET_PRICE_DECIMALS = 8;
+
+// Helper function to convert a Comet per-second rate (1e18 scale) to APR and APY (both in %)
+function convertCometRate(ratePerSecond: bigint): { apr: number; apy: number } {
+  const apr = Number(formatUnits(ratePerSecond, 18)) * SECONDS_PER_YEAR * 100;
+  return { apr, apy: aprToApy(apr, SECONDS_PER_YEAR) };
+}
+
+// COMP price through any Comet's getPrice, which reads a Chainlink feed
+async function readCompPrice(ctx: AdapterContext, comet: `0x${string}`): Promise<number | undefined> {
+  const priceFeed = ctx.chain.compound.compUsdPriceFeed;
+  if (!priceFeed) return undefined;
+
+  try {
+    const price = await ctx.client.readContract({
+      address: comet,
+      abi: COMET_ABI,
+      functionName: 'getPrice',
+      args: [priceFeed],
+    });
+    return Number(formatUnits(price, COMET_PRICE_DECIMALS));
+  } catch (error) {
+    console.error('Error fetching COMP price:', error);
+    return undefined;
+  }
+}
+
+export const compoundAdapter: YieldSourceAdapter = {
+  id: 'compound-v3',
+  protocol: 'Compound',
+
+  async listMarkets(ctx) {
+    return ctx.chain.compound.markets.map((market): YieldMarket => ({
+      id: market.comet.toLowerCase(),
+      symbol: market.symbol,
+      tokenAddress: market.baseToken,
+      decimals: market.decimals,
+      contractAddress: market.comet,
+      depositUrl: getCompoundMarketUrl(market),
+    }));
+  },
+
+  async fetchRates(ctx, markets) {
+    // First pass: everything that doesn't depend on another read
+    const firstPass = await ctx.client.multicall({
+      allowFailure: false,
+      contracts: markets.flatMap((market) => [
+        { address: market.contractAddress, abi: COMET_ABI, functionName: 'getUtilization' },
+        { address: market.contractAddress, abi: COMET_ABI, functionName: 'totalSupply' },
+        { address: market.contractAddress, abi: COMET_ABI, functionName: 'totalBorrow' },
+        { address: market.contractAddress, abi: COMET_ABI, functionName: 'baseTrackingSupplySpeed' },
+        { address: market.contractAddress, abi: COMET_ABI, functionName: 'trackingIndexScale' },
+        { address: market.contractAddress, abi: COMET_ABI, functionName: 'baseTokenPriceFeed' },
+      ] as const),
+    });
+
+    const reads = markets.map((market, index) => {
+      const [utilization, totalSupply, totalBorrow, supplySpeed, trackingIndexScale, priceFeed] =
+        firstPass.slice(index * 6, index * 6 + 6);
+      return {
+        market,
+        utilization: utilization as bigint,
+        totalSupply: totalSupply as bigint,
+        totalBorrow: totalBorrow as bigint,
+        supplySpeed: supplySpeed as bigint,
+        trackingIndexScale: trackingIndexScale as bigint,
+        priceFeed: priceFeed as `0x${string}`,
+      };
+    });
+
+    // Second pass: supply rate at current utilization and base token price, plus the COMP price
+    const [secondPass, compPrice] = await Promise.all([
+      ctx.client.multicall({
+        allowFailure: false,
+        contracts: reads.flatMap((read) => [
+          { address: read.market.contractAddress, abi: COMET_ABI, functionName: 'getSupplyRate', args: [read.utilization] },
+          { address: read.market.contractAddress, abi: COMET_ABI, functionName: 'getPrice', args: [read.priceFeed] },
+        ] as const),
+      }),
+      markets.length > 0 ? readCompPrice(ctx, markets[0].contractAddress) : undefined,
+    ]);
+
+    const rates: Record<string, MarketRates> = {};
+    reads.forEach((read, index) => {
+      const supplyRate = secondPass[index * 2];
+      const price = secondPass[index * 2 + 1];
+
+      const priceInUsd = Number(formatUnits(price, COMET_PRICE_DECIMALS));
+      const totalSupplied = Number(formatUnits(read.totalSupply, read.market.decimals)) * priceInUsd;
+      const totalBorrowed = Number(formatUnits(read.totalBorrow, read.market.decimals)) * priceInUsd;
+
+      // Reward speed is expressed in tracking index units per second
+      const compPerYear = read.trackingIndexScale > BigInt(0)
+        ? (Number(read.supplySpeed) / Number(read.trackingIndexScale)) * SECONDS_PER_YEAR
+        : 0;
+
+      rates[read.market.id] = {
+        ...convertCometRate(supplyRate),
+        tvl: totalSupplied,
+        priceUsd: priceInUsd,
+        totalSupplied,
+        totalBorrowed,
+        availableLiquidity: Math.max(totalSupplied - totalBorrowed, 0),
+        utilization: Number(formatUnits(read.utilization, 18)),
+        // Without a COMP price the reward can't be valued, so leave it out rather than report 0%
+        rewardTokens: compPerYear > 0 && compPrice !== undefined && totalSupplied > 0
+          ? [{ symbol: 'COMP', address: ctx.chain.compound.compToken, apr: (compPerYear * compPrice / totalSupplied) * 100 }]
+          : [],
+      };
+    });
+
+    return rates;
+  },
+
+  async fetchUserPositions(ctx, markets, user) {
+    // Wallet balance of the base token and supplied balance in Comet
+    const results = await ctx.client.multicall({
+      contracts: markets.flatMap((market) => [
+        { address: market.tokenAddress, abi: ERC20_ABI, functionName: 'balanceOf', args: [user] },
+        { address: market.contractAddress, abi: COMET_ABI, functionName: 'balanceOf', args: [user] },
+      ] as const),
+    });
+
+    const positions: Record<string, UserPosition> = {};
+    markets.forEach((market, index) => {
+      const wallet = results[index * 2];
+      const supplied = results[index * 2 + 1];
+      positions[market.id] = {
+        walletBalance: wallet.status === 'success' ? Number(formatUnits(wallet.result, market.decimals)) : 0,
+        suppliedBalance: supplied.status === 'success' ? Number(formatUnits(supplied.result, market.decimals)) : 0,
+      };
+    });
+
+    return positions;
+  },
+};
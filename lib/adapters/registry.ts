@@ -0,0 +1,120 @@
+import { aaveAdapter } from './aave';
+import { compoundAdapter } from './compound';
+import type {
+  AdapterContext,
+  MarketRates,
+  UserPosition,
+  YieldOpportunitiesResponse,
+  YieldOpportunity,
+  YieldSourceAdapter,
+  YieldSourceStatus,
+} from './types';
+
+// Every yield source /api/polygon fans out to
+const yieldSources: YieldSourceAdapter[] = [aaveAdapter, compoundAdapter];
+
+export function registerYieldSource(adapter: YieldSourceAdapter) {
+  if (yieldSources.some((source) => source.id === adapter.id)) {
+    throw new Error(`Yield source "${adapter.id}" is already registered`);
+  }
+  yieldSources.push(adapter);
+}
+
+export function getYieldSources(): readonly YieldSourceAdapter[] {
+  return yieldSources;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Query a single source; failures are recorded on the status instead of thrown
+async function collectFromSource(
+  adapter: YieldSourceAdapter,
+  ctx: AdapterContext,
+  user?: `0x${string}`
+): Promise<{ opportunities: YieldOpportunity[]; status: YieldSourceStatus }> {
+  const status: YieldSourceStatus = { source: adapter.id, ok: true, marketCount: 0, errors: [] };
+
+  try {
+    const markets = await adapter.listMarkets(ctx);
+    status.marketCount = markets.length;
+
+    const [rates, positions] = await Promise.all([
+      adapter.fetchRates(ctx, markets).catch((error): Record<string, MarketRates> => {
+        status.errors.push({ stage: 'rates', message: errorMessage(error) });
+        return {};
+      }),
+      user
+        ? adapter.fetchUserPositions(ctx, markets, user).catch((error): Record<string, UserPosition> => {
+            status.errors.push({ stage: 'positions', message: errorMessage(error) });
+            return {};
+          })
+        : Promise.resolve({} as Record<string, UserPosition>),
+    ]);
+
+    // A market without rates has nothing useful to show
+    const opportunities = markets
+      .filter((market) => rates[market.id])
+      .map((market): YieldOpportunity => {
+        const rate = rates[market.id];
+
+        // Rewards are claimed rather than compounded, so they add to APR and APY alike
+        const rewardTokens = rate.rewardTokens || [];
+        const rewardApr = rewardTokens.reduce((sum, token) => sum + token.apr, 0);
+
+        return {
+          chain: ctx.chain.key,
+          protocol: adapter.protocol,
+          asset: market.symbol,
+          symbol: market.symbol,
+          apr: rate.apr + rewardApr,
+          apy: rate.apy + rewardApr,
+          baseApr: rate.apr,
+          rewardApr,
+          rewardTokens,
+          tvl: rate.tvl,
+          priceUsd: rate.priceUsd,
+          totalSupplied: rate.totalSupplied,
+          totalBorrowed: rate.totalBorrowed,
+          availableLiquidity: rate.availableLiquidity,
+          utilization: rate.utilization,
+          userBalance: positions[market.id]?.walletBalance || 0,
+          suppliedBalance: positions[market.id]?.suppliedBalance || 0,
+          depositUrl: market.depositUrl,
+          tokenAddress: market.tokenAddress,
+          contractAddress: market.contractAddress,
+          depositsDisabled: market.depositsDisabled,
+        };
+      });
+
+    status.ok = status.errors.length === 0;
+    return { opportunities, status };
+  } catch (error) {
+    status.ok = false;
+    status.errors.push({ stage: 'markets', message: errorMessage(error) });
+    return { opportunities: [], status };
+  }
+}
+
+// Fan out to every registered source and merge the results
+export async function fetchAllYieldOpportunities(
+  ctx: AdapterContext,
+  user?: `0x${string}`
+): Promise<YieldOpportunitiesResponse> {
+  const results = await Promise.all(
+    yieldSources.map((adapter) => collectFromSource(adapter, ctx, user))
+  );
+
+  for (const { status } of results) {
+    for (const error of status.errors) {
+      console.error(`[Yield Sources] ${ctx.chain.key}/${status.source} failed at ${error.stage}: ${error.message}`);
+    }
+  }
+
+  return {
+    chain: ctx.chain.key,
+    opportunities: results.flatMap((result) => result.opportunities),
+    sources: results.map((result) => result.status),
+  };
+}
@@ -0,0 +1,102 @@
+import type { PublicClient } from 'viem';
+import type { ChainConfig, SupportedChainKey } from '@/lib/chains';
+import type { GasEstimate } from '@/lib/gas';
+
+// Types for yield data
+export interface YieldOpportunity {
+  chain?: SupportedChainKey;
+  protocol: string;
+  asset: string;
+  symbol: string;
+  apr: number; // Simple annual rate in %, base plus rewards
+  apy?: number; // Compounded annual yield in %, base plus rewards
+  baseApr?: number; // Lending interest only, in %
+  rewardApr?: number; // Incentive rewards only, in %
+  rewardTokens?: RewardTokenApr[];
+  tvl: number; // Total supplied in USD
+  userBalance: number;
+  depositUrl: string;
+  tokenAddress?: string; // Underlying token supplied to the market
+  priceUsd?: number; // USD price of the underlying token
+  totalSupplied?: number; // Total supplied to the market in USD
+  totalBorrowed?: number; // Total borrowed from the market in USD
+  availableLiquidity?: number; // Liquidity that can be withdrawn right now in USD
+  utilization?: number; // Borrowed / supplied, 0-1
+  suppliedBalance?: number; // Amount the user already has supplied to this market
+  contractAddress?: string; // Contract address for gas estimation
+  depositsDisabled?: boolean; // The market is frozen or paused; existing positions can still be shown
+  gasEstimate?: GasEstimate; // Approve and supply gas for depositing the wallet balance
+  withdrawGasEstimate?: GasEstimate; // Gas for withdrawing the whole supplied balance
+  estimatedFee?: number; // Estimated fee amount (0.5%)
+}
+
+// An incentive token paid to suppliers and its contribution to the rate
+export interface RewardTokenApr {
+  symbol: string;
+  address: string;
+  apr: number; // In %
+}
+
+// A lending market exposed by a yield source
+export interface YieldMarket {
+  id: string; // Unique within its source, e.g. the underlying token address
+  symbol: string;
+  tokenAddress: `0x${string}`;
+  decimals: number;
+  contractAddress: `0x${string}`; // Contract users deposit into
+  depositUrl: string;
+  depositsDisabled?: boolean; // Listed for existing positions, but not accepting new supply
+}
+
+// Current rates for a market
+export interface MarketRates {
+  apr: number; // Base lending APR in %, rewards excluded
+  apy: number; // Base lending APY in %, rewards excluded
+  tvl: number;
+  priceUsd?: number; // USD price of the underlying token
+  totalSupplied: number; // USD
+  totalBorrowed: number; // USD
+  availableLiquidity: number; // USD
+  utilization: number; // 0-1
+  rewardTokens?: RewardTokenApr[]; // Active incentive programs for suppliers
+}
+
+// A user's holdings relevant to a market
+export interface UserPosition {
+  walletBalance: number; // Underlying tokens sitting in the wallet
+  suppliedBalance: number; // Underlying tokens already supplied to the market
+}
+
+// Per-request state shared by every adapter
+export interface AdapterContext {
+  chain: ChainConfig;
+  client: PublicClient;
+}
+
+// Contract every protocol integration implements
+export interface YieldSourceAdapter {
+  id: string;
+  protocol: string; // Display name used for YieldOpportunity.protocol
+  listMarkets(ctx: AdapterContext): Promise<YieldMarket[]>;
+  fetchRates(ctx: AdapterContext, markets: YieldMarket[]): Promise<Record<string, MarketRates>>;
+  fetchUserPositions(
+    ctx: AdapterContext,
+    markets: YieldMarket[],
+    user: `0x${string}`
+  ): Promise<Record<string, UserPosition>>;
+}
+
+// Outcome of querying a single source
+export interface YieldSourceStatus {
+  source: string;
+  ok: boolean;
+  marketCount: number;
+  errors: { stage: 'markets' | 'rates' | 'positions'; message: string }[];
+}
+
+// Shape returned by /api/polygon
+export interface YieldOpportunitiesResponse {
+  chain: SupportedChainKey;
+  opportunities: YieldOpportunity[];
+  sources: YieldSourceStatus[];
+}
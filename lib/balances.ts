@@ -0,0 +1,199 @@
+import { formatUnits, type PublicClient } from 'viem';
+import { COMET_ABI, ERC20_ABI, MULTICALL3_ABI } from '@/lib/abis';
+import { aaveAdapter } from '@/lib/adapters/aave';
+import { compoundAdapter } from '@/lib/adapters/compound';
+import type { YieldOpportunity } from '@/lib/adapters/types';
+import type { Address, ChainConfig, SupportedChainKey } from '@/lib/chains';
+import { getTokenPriceUsd, readAaveReserves } from '@/lib/pricing';
+import { getTokens } from '@/lib/tokens';
+import type { LabeledWallet } from '@/lib/wallets';
+
+export interface TokenBalance {
+  symbol: string;
+  address: Address;
+  decimals: number;
+  balance: number;
+  valueUsd: number | null; // null when the token has no known price
+}
+
+// A position already deposited in a lending protocol
+export interface SuppliedBalance {
+  protocol: string;
+  symbol: string;
+  tokenAddress: Address; // Underlying token
+  contractAddress: Address; // aToken or Comet holding the position
+  balance: number;
+  valueUsd: number | null;
+}
+
+// Balances of one registered wallet; null when they couldn't be loaded
+export interface WalletBalancesEntry {
+  wallet: LabeledWallet;
+  balances: WalletBalances | null;
+}
+
+// Balances summed across several wallets, each holding tagged with the wallet it sits in
+export interface AggregatedBalances {
+  native: (WalletBalances['native'] & { wallet: LabeledWallet })[];
+  wallet: (TokenBalance & { wallet: LabeledWallet })[];
+  supplied: (SuppliedBalance & { wallet: LabeledWallet })[];
+  totalWalletUsd: number;
+  totalSuppliedUsd: number;
+  walletCount: number; // Wallets whose balances loaded
+}
+
+// Shape returned by /api/polygon/balances
+export interface WalletBalances {
+  chain: SupportedChainKey;
+  address: Address;
+  native: { symbol: string; balance: number; valueUsd: number | null };
+  wallet: TokenBalance[];
+  supplied: SuppliedBalance[];
+  totalWalletUsd: number;
+  totalSuppliedUsd: number;
+  updatedAt: string;
+}
+
+function toUsd(balance: number, priceUsd: number | undefined): number | null {
+  return priceUsd === undefined ? null : balance * priceUsd;
+}
+
+function sumUsd(balances: { valueUsd: number | null }[]): number {
+  return balances.reduce((sum, balance) => sum + (balance.valueUsd || 0), 0);
+}
+
+// Wallet, native and supplied balances for one address in a single multicall.
+// Prices and aToken addresses come from the Aave reserves, read just before.
+export async function fetchWalletBalances(
+  client: PublicClient,
+  chain: ChainConfig,
+  user: Address
+): Promise<WalletBalances> {
+  const { reservesData, prices } = await readAaveReserves(client, chain);
+  const tokens = getTokens(chain.chain.id);
+  const cometMarkets = chain.compound.markets;
+  const multicall3 = chain.chain.contracts?.multicall3?.address;
+  if (!multicall3) {
+    throw new Error(`No multicall3 deployment configured for ${chain.name}`);
+  }
+
+  // Every call returns a single uint256, so results can be read back by position
+  const results = await client.multicall({
+    contracts: [
+      ...tokens.map((token) => (
+        { address: token.address, abi: ERC20_ABI, functionName: 'balanceOf', args: [user] } as const
+      )),
+      ...reservesData.map((reserve) => (
+        { address: reserve.aTokenAddress, abi: ERC20_ABI, functionName: 'balanceOf', args: [user] } as const
+      )),
+      ...cometMarkets.map((market) => (
+        { address: market.comet, abi: COMET_ABI, functionName: 'balanceOf', args: [user] } as const
+      )),
+      { address: multicall3, abi: MULTICALL3_ABI, functionName: 'getEthBalance', args: [user] } as const,
+    ],
+  });
+
+  let index = 0;
+  const next = (decimals: number): number => {
+    const result = results[index++];
+    return result.status === 'success' ? Number(formatUnits(result.result as bigint, decimals)) : 0;
+  };
+
+  const wallet: TokenBalance[] = tokens.map((token) => {
+    const balance = next(token.decimals);
+    return {
+      symbol: token.symbol,
+      address: token.address,
+      decimals: token.decimals,
+      balance,
+      valueUsd: toUsd(balance, getTokenPriceUsd(prices, token.address)),
+    };
+  });
+
+  const supplied: SuppliedBalance[] = [];
+  for (const reserve of reservesData) {
+    const balance = next(Number(reserve.decimals));
+    if (balance > 0) {
+      supplied.push({
+        protocol: aaveAdapter.protocol,
+        symbol: reserve.symbol,
+        tokenAddress: reserve.underlyingAsset,
+        contractAddress: reserve.aTokenAddress,
+        balance,
+        valueUsd: toUsd(balance, getTokenPriceUsd(prices, reserve.underlyingAsset)),
+      });
+    }
+  }
+  for (const market of cometMarkets) {
+    const balance = next(market.decimals);
+    if (balance > 0) {
+      supplied.push({
+        protocol: compoundAdapter.protocol,
+        symbol: market.symbol,
+        tokenAddress: market.baseToken,
+        contractAddress: market.comet,
+        balance,
+        valueUsd: toUsd(balance, getTokenPriceUsd(prices, market.baseToken)),
+      });
+    }
+  }
+
+  const nativeBalance = next(chain.chain.nativeCurrency.decimals);
+
+  return {
+    chain: chain.key,
+    address: user,
+    native: {
+      symbol: chain.nativeSymbol,
+      balance: nativeBalance,
+      valueUsd: nativeBalance * prices.nativeTokenPriceUsd,
+    },
+    wallet,
+    supplied,
+    totalWalletUsd: sumUsd(wallet) + nativeBalance * prices.nativeTokenPriceUsd,
+    totalSuppliedUsd: sumUsd(supplied),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Overlay balances onto opportunities so every row shows wallet and deposited amounts
+export function applyBalances(opportunities: YieldOpportunity[], balances: WalletBalances): YieldOpportunity[] {
+  return opportunities.map((opportunity) => {
+    const tokenAddress = opportunity.tokenAddress?.toLowerCase();
+    if (!tokenAddress) return opportunity;
+
+    const wallet = balances.wallet.find((balance) => balance.address.toLowerCase() === tokenAddress);
+    const supplied = balances.supplied.find((balance) =>
+      balance.protocol === opportunity.protocol && balance.tokenAddress.toLowerCase() === tokenAddress
+    );
+
+    return {
+      ...opportunity,
+      userBalance: wallet?.balance ?? opportunity.userBalance,
+      suppliedBalance: supplied?.balance ?? opportunity.suppliedBalance ?? 0,
+    };
+  });
+}
+
+// Combine per-wallet balances into one portfolio, keeping which wallet holds each position
+export function aggregateBalances(entries: WalletBalancesEntry[]): AggregatedBalances {
+  const aggregated: AggregatedBalances = {
+    native: [],
+    wallet: [],
+    supplied: [],
+    totalWalletUsd: 0,
+    totalSuppliedUsd: 0,
+    walletCount: 0,
+  };
+
+  for (const { wallet, balances } of entries) {
+    if (!balances) continue;
+    aggregated.native.push({ ...balances.native, wallet });
+    aggregated.wallet.push(...balances.wallet.map((balance) => ({ ...balance, wallet })));
+    aggregated.supplied.push(...balances.supplied.map((balance) => ({ ...balance, wallet })));
+    aggregated.totalWalletUsd += balances.totalWalletUsd;
+    aggregated.totalSuppliedUsd += balances.totalSuppliedUsd;
+    aggregated.walletCount += 1;
+  }
+  return aggregated;
+}
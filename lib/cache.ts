@@ -0,0 +1,137 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// Persisted entries go under .next/cache, which survives dev restarts and is never committed
+const CACHE_DIR = process.env.CACHE_DIR || path.join(process.cwd(), '.next', 'cache', 'yieldsnap');
+
+export interface CacheOptions {
+  ttlMs: number; // Served as-is while younger than this
+  staleWhileRevalidateMs: number; // After the TTL, served for this much longer while a refresh runs
+  persist?: boolean; // Also keep entries on disk so they survive cold starts; values must be JSON
+  maxEntries?: number; // Least recently used keys are dropped past this
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+export interface Cache<T> {
+  // Cached value for a key, loading it on a miss. Concurrent callers share one load.
+  get: (key: string, load: () => Promise<T>) => Promise<T>;
+  // Forget a key in memory and on disk; a load already running for it is not stored
+  delete: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+// A keyed in-memory cache with TTL, stale-while-revalidate and in-flight coalescing.
+// A stale entry is returned immediately while one background load refreshes it;
+// if that load fails the stale entry keeps being served until it expires.
+// Entries past their stale window are pruned and the map is capped, least recently used first.
+export function createCache<T>(
+  name: string,
+  { ttlMs, staleWhileRevalidateMs, persist = false, maxEntries = DEFAULT_MAX_ENTRIES }: CacheOptions
+): Cache<T> {
+  // Map order doubles as recency: reads move a key to the end, eviction takes from the front
+  const entries = new Map<string, CacheEntry<T>>();
+  const inFlight = new Map<string, Promise<T>>();
+  const maxAgeMs = ttlMs + staleWhileRevalidateMs;
+
+  const touch = (key: string, entry: CacheEntry<T>) => {
+    entries.delete(key);
+    entries.set(key, entry);
+  };
+
+  const store = (key: string, entry: CacheEntry<T>) => {
+    touch(key, entry);
+    const now = Date.now();
+    for (const [storedKey, stored] of entries) {
+      if (now - stored.storedAt >= maxAgeMs) entries.delete(storedKey);
+    }
+    for (const storedKey of entries.keys()) {
+      if (entries.size <= maxEntries) break;
+      entries.delete(storedKey);
+    }
+  };
+
+  const diskPath = (key: string) =>
+    path.join(CACHE_DIR, name, `${createHash('sha256').update(key).digest('hex').slice(0, 32)}.json`);
+
+  const readDisk = async (key: string): Promise<CacheEntry<T> | undefined> => {
+    try {
+      return JSON.parse(await readFile(diskPath(key), 'utf8')) as CacheEntry<T>;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const writeDisk = async (key: string, entry: CacheEntry<T>) => {
+    try {
+      const file = diskPath(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, JSON.stringify(entry));
+    } catch (error) {
+      console.warn(`[Cache] Could not persist ${name} entry:`, error);
+    }
+  };
+
+  const load = (key: string, loader: () => Promise<T>): Promise<T> => {
+    let pending = inFlight.get(key);
+    if (!pending) {
+      pending = (async () => {
+        try {
+          const entry = { value: await loader(), storedAt: Date.now() };
+          // Skip storing if the key was deleted while this load ran
+          if (inFlight.get(key) === pending) {
+            store(key, entry);
+            if (persist) void writeDisk(key, entry);
+          }
+          return entry.value;
+        } finally {
+          if (inFlight.get(key) === pending) inFlight.delete(key);
+        }
+      })();
+      inFlight.set(key, pending);
+    }
+    return pending;
+  };
+
+  return {
+    async get(key, loader) {
+      let entry = entries.get(key);
+      if (entry) {
+        touch(key, entry);
+      } else if (persist) {
+        entry = await readDisk(key);
+        if (entry) store(key, entry);
+      }
+
+      const age = entry ? Date.now() - entry.storedAt : Infinity;
+      if (entry && age < ttlMs) {
+        return entry.value;
+      }
+      if (entry && age < maxAgeMs) {
+        load(key, loader).catch((error) => {
+          console.warn(`[Cache] Background refresh of ${name} failed, serving stale data:`, error);
+        });
+        return entry.value;
+      }
+      return load(key, loader);
+    },
+
+    async delete(key) {
+      entries.delete(key);
+      inFlight.delete(key);
+      if (persist) await rm(diskPath(key), { force: true });
+    },
+
+    async clear() {
+      entries.clear();
+      inFlight.clear();
+      if (persist) await rm(path.join(CACHE_DIR, name), { recursive: true, force: true });
+    },
+  };
+}
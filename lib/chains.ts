@@ -0,0 +1,215 @@
+import type { Chain } from 'viem';
+import { arbitrum, base, mainnet, optimism, polygon } from 'wagmi/chains';
+
+export type Address = `0x${string}`;
+
+export const SUPPORTED_CHAIN_KEYS = ['polygon', 'ethereum', 'arbitrum', 'optimism', 'base'] as const;
+export type SupportedChainKey = (typeof SUPPORTED_CHAIN_KEYS)[number];
+
+export const DEFAULT_CHAIN_KEY: SupportedChainKey = 'polygon';
+
+// A Compound V3 (Comet) market: a single-asset lending market for its base token
+export interface CometMarketConfig {
+  symbol: string;
+  comet: Address;
+  baseToken: Address;
+  decimals: number;
+  marketSlug: string; // app.compound.finance ?market= value
+}
+
+// Everything the app needs to talk to one chain; tokens live in lib/tokens
+export interface ChainConfig {
+  key: SupportedChainKey;
+  name: string;
+  chain: Chain;
+  nativeSymbol: string;
+  alchemyNetwork: string; // Subdomain used in Alchemy RPC URLs
+  aave: {
+    pool: Address;
+    poolAddressesProvider: Address; // The UI data providers take this, not the Pool
+    uiPoolDataProvider: Address;
+    uiIncentiveDataProvider: Address;
+    marketName: string; // app.aave.com marketName query value
+  };
+  compound: {
+    markets: CometMarketConfig[];
+    compToken: Address; // COMP on this chain, paid to suppliers through CometRewards
+    compUsdPriceFeed?: Address; // Chainlink COMP / USD feed, read through Comet's getPrice
+  };
+}
+
+export const CHAINS: Record<SupportedChainKey, ChainConfig> = {
+  polygon: {
+    key: 'polygon',
+    name: 'Polygon',
+    chain: polygon,
+    nativeSymbol: 'MATIC',
+    alchemyNetwork: 'polygon-mainnet',
+    aave: {
+      pool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+      poolAddressesProvider: '0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb',
+      uiPoolDataProvider: '0x8F1AD487C9413d7e81aB5B4E88B024Ae3b5637D0',
+      uiIncentiveDataProvider: '0x874313A46e4957D29FAAC43BF5Eb2B144894f557',
+      marketName: 'proto_polygon_v3',
+    },
+    compound: {
+      markets: [
+        {
+          symbol: 'USDC',
+          comet: '0xF25212E676D1F7F89Cd72fFEe66158f541246445',
+          baseToken: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+          decimals: 6,
+          marketSlug: 'usdc.e-polygon',
+        },
+        {
+          symbol: 'USDT',
+          comet: '0xaeB318360f27748Acb200CE616E389A6C9409a07',
+          baseToken: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+          decimals: 6,
+          marketSlug: 'usdt-polygon',
+        },
+      ],
+      compToken: '0x8505b9d2254A7Ae468c0E9dd10Ccea3A837aef5c',
+      compUsdPriceFeed: '0x2A8758b7257102461BC958279054e372C2b1bDE6',
+    },
+  },
+  ethereum: {
+    key: 'ethereum',
+    name: 'Ethereum',
+    chain: mainnet,
+    nativeSymbol: 'ETH',
+    alchemyNetwork: 'eth-mainnet',
+    aave: {
+      pool: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2',
+      poolAddressesProvider: '0x2f39d218133AFaB8F2B819B1066c7E434Ad94E9e',
+      uiPoolDataProvider: '0x3F78BBD206e4D3c504Eb854232EdA7e47E9Fd8FC',
+      uiIncentiveDataProvider: '0x162A7AC02f547ad796CA549f757e2b8d1D9b10a6',
+      marketName: 'proto_mainnet_v3',
+    },
+    compound: {
+      markets: [
+        {
+          symbol: 'USDC',
+          comet: '0xc3d688B66703497DAA19211EEdff47f25384cdc3',
+          baseToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+          decimals: 6,
+          marketSlug: 'usdc-mainnet',
+        },
+        {
+          symbol: 'WETH',
+          comet: '0xA17581A9E3356d9A858b789D68B4d866e593aE94',
+          baseToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+          decimals: 18,
+          marketSlug: 'weth-mainnet',
+        },
+      ],
+      compToken: '0xc00e94Cb662C3520282E6f5717214004A7f26888',
+      compUsdPriceFeed: '0xdbd020CAeF83eFd542f4De03e3cF0C28A4428bd5',
+    },
+  },
+  arbitrum: {
+    key: 'arbitrum',
+    name: 'Arbitrum',
+    chain: arbitrum,
+    nativeSymbol: 'ETH',
+    alchemyNetwork: 'arb-mainnet',
+    aave: {
+      pool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+      poolAddressesProvider: '0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb',
+      uiPoolDataProvider: '0x145dE30c929a065582da84Cf96F88460dB9745A7',
+      uiIncentiveDataProvider: '0xDA67AF3403555Ce0AE3ffC22fDb7354458277358',
+      marketName: 'proto_arbitrum_v3',
+    },
+    compound: {
+      markets: [
+        {
+          symbol: 'USDC',
+          comet: '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf',
+          baseToken: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+          decimals: 6,
+          marketSlug: 'usdc-arb',
+        },
+      ],
+      compToken: '0x354A6dA3fcde098F8389cad84b0182725c6C91dE',
+      compUsdPriceFeed: '0xe7C53FFd03Eb6ceF7d208bC4C13446c76d1E5884',
+    },
+  },
+  optimism: {
+    key: 'optimism',
+    name: 'Optimism',
+    chain: optimism,
+    nativeSymbol: 'ETH',
+    alchemyNetwork: 'opt-mainnet',
+    aave: {
+      pool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+      poolAddressesProvider: '0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb',
+      uiPoolDataProvider: '0xbd83DdBE37fc91923d59C8c1E0bDe0CccCa332d5',
+      uiIncentiveDataProvider: '0x6F143FE2F7B02424ad3CaD1593D6f36c0Aab69d7',
+      marketName: 'proto_optimism_v3',
+    },
+    compound: {
+      markets: [
+        {
+          symbol: 'USDC',
+          comet: '0x2e44e174f7D53F0212823acC11C01A11d58c5bCB',
+          baseToken: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+          decimals: 6,
+          marketSlug: 'usdc-op',
+        },
+      ],
+      compToken: '0x7e7d4467112689329f7E06571eD0E8CbAd4910eE',
+    },
+  },
+  base: {
+    key: 'base',
+    name: 'Base',
+    chain: base,
+    nativeSymbol: 'ETH',
+    alchemyNetwork: 'base-mainnet',
+    aave: {
+      pool: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5',
+      poolAddressesProvider: '0xe20fCBdBfFC4Dd138cE8b2E6FBb6CB49777ad64D',
+      uiPoolDataProvider: '0x174446a6741300cD2E7C1b1A636Fee99c8F83502',
+      uiIncentiveDataProvider: '0xEdD3b4737C1a0C8C7645C1A8B3FC5a1fA2a4bA2D',
+      marketName: 'proto_base_v3',
+    },
+    compound: {
+      markets: [
+        {
+          symbol: 'USDC',
+          comet: '0xb125E6687d4313864e53df431d5425969c15Eb2F',
+          baseToken: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+          decimals: 6,
+          marketSlug: 'usdc-basemainnet',
+        },
+      ],
+      compToken: '0x9e1028F5F1D5eDE59748FFceE5532509976840E0',
+      compUsdPriceFeed: '0x9DDa783DE64A9d1A60c49ca761EbE528C35BA428',
+    },
+  },
+};
+
+export function isSupportedChainKey(value: string): value is SupportedChainKey {
+  return (SUPPORTED_CHAIN_KEYS as readonly string[]).includes(value);
+}
+
+// Resolve a ?chain= query value; missing means the default chain, unknown means undefined
+export function resolveChainParam(value: string | null | undefined): ChainConfig | undefined {
+  if (!value) return CHAINS[DEFAULT_CHAIN_KEY];
+  const key = value.toLowerCase();
+  return isSupportedChainKey(key) ? CHAINS[key] : undefined;
+}
+
+export function getChainConfigById(chainId: number): ChainConfig | undefined {
+  return Object.values(CHAINS).find((config) => config.chain.id === chainId);
+}
+
+// Link to the Aave reserve page for an underlying asset
+export function getAaveReserveUrl(chain: ChainConfig, underlyingAsset: string): string {
+  return `https://app.aave.com/reserve-overview/?underlyingAsset=${underlyingAsset.toLowerCase()}&marketName=${chain.aave.marketName}`;
+}
+
+// Link to the Compound app for a Comet market
+export function getCompoundMarketUrl(market: CometMarketConfig): string {
+  return `https://app.compound.finance/?market=${market.marketSlug}`;
+}
@@ -0,0 +1,21 @@
+import { hasDedicatedRpc, RPC_RECORD_MODE } from '@/lib/rpc/client';
+
+// 'live' reads chains and upstream APIs; 'fixtures' serves the JSON scenarios in lib/fixtures
+export type DataSource = 'live' | 'fixtures';
+
+function resolveDataSource(value: string | undefined): DataSource {
+  if (value === 'live' || value === 'fixtures') return value;
+  if (value) {
+    console.warn(`[Data Source] Unknown DATA_SOURCE "${value}", expected "live" or "fixtures"`);
+  }
+  // Recording and replaying RPC calls only make sense against the live code paths
+  if (RPC_RECORD_MODE) return 'live';
+  // The shared demo key is heavily rate limited, so only go live by default with a real endpoint
+  return hasDedicatedRpc() ? 'live' : 'fixtures';
+}
+
+export const DATA_SOURCE: DataSource = resolveDataSource(process.env.DATA_SOURCE);
+
+export function isFixtureMode(): boolean {
+  return DATA_SOURCE === 'fixtures';
+}
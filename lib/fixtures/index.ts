@@ -0,0 +1,274 @@
+import { parseGwei } from 'viem';
+import type { DefiLlamaPool } from '@/app/api/defi-llama/pools/route';
+import type { LiquidityPair } from '@/app/api/polygon/liquidity-pairs/route';
+import { aaveAdapter } from '@/lib/adapters/aave';
+import { compoundAdapter } from '@/lib/adapters/compound';
+import type { YieldOpportunitiesResponse, YieldOpportunity } from '@/lib/adapters/types';
+import { applyBalances, type SuppliedBalance, type TokenBalance, type WalletBalances } from '@/lib/balances';
+import {
+  getAaveReserveUrl,
+  getCompoundMarketUrl,
+  type Address,
+  type ChainConfig,
+  type SupportedChainKey,
+} from '@/lib/chains';
+import { buildGasEstimate, canSupplyWithPermit, type GasAction, type GasEstimate } from '@/lib/gas';
+import type { PriceSnapshot } from '@/lib/pricing';
+import { getTokenBySymbol, type TokenInfo } from '@/lib/tokens';
+import { aprToApy } from '@/lib/utils';
+import defaultScenario from './scenarios/default.json';
+import highUtilizationScenario from './scenarios/high-utilization.json';
+
+// Bump when the scenario file layout changes; files with another version are rejected
+export const FIXTURE_SCHEMA_VERSION = 3;
+
+const SECONDS_PER_YEAR = 31536000;
+
+// A lending market; derived fields (APY, liquidity, addresses, URLs) are filled in on load
+interface FixtureMarket {
+  protocol: string;
+  symbol: string;
+  baseApr: number;
+  totalSupplied: number; // USD
+  totalBorrowed: number; // USD
+  rewardTokens?: { symbol: string; apr: number }[];
+}
+
+// A liquidity pair; tokens are referenced by symbol and priced from the scenario prices
+interface FixtureLiquidityPair extends Omit<LiquidityPair, 'token0' | 'token1' | 'rewardTokens' | 'riskLevel'> {
+  token0: string;
+  token1: string;
+  rewardTokens: { symbol: string; rewardRate: number }[];
+  riskLevel: string;
+}
+
+interface FixtureChainData {
+  prices: { native: number; tokens: Record<string, number> }; // USD, keyed by symbol
+  opportunities: FixtureMarket[];
+  balances: {
+    native: number;
+    wallet: { symbol: string; balance: number }[];
+    supplied: { protocol: string; symbol: string; contractAddress: string; balance: number }[];
+  };
+  gas: {
+    approvalNeeded: boolean;
+    approveGasUnits: number;
+    supplyGasUnits: Record<string, number>; // Keyed by protocol
+    withdrawGasUnits: Record<string, number>; // Keyed by protocol
+    baseFeeGwei: number;
+    priorityFeeGwei: number;
+  };
+  liquidityPairs: FixtureLiquidityPair[];
+}
+
+export interface FixtureScenario {
+  version: number;
+  scenario: string;
+  description: string;
+  updatedAt: string;
+  chains: Partial<Record<SupportedChainKey, FixtureChainData>>;
+  defiLlamaPools: DefiLlamaPool[];
+}
+
+// Every scenario file in lib/fixtures/scenarios, selected with FIXTURE_SCENARIO
+const SCENARIOS: Record<string, unknown> = {
+  'default': defaultScenario,
+  'high-utilization': highUtilizationScenario,
+};
+
+export function getFixtureScenario(name = process.env.FIXTURE_SCENARIO || 'default'): FixtureScenario {
+  const scenario = SCENARIOS[name] as FixtureScenario | undefined;
+  if (!scenario) {
+    throw new Error(`Unknown fixture scenario "${name}" (available: ${Object.keys(SCENARIOS).join(', ')})`);
+  }
+  if (scenario.version !== FIXTURE_SCHEMA_VERSION) {
+    throw new Error(`Fixture scenario "${name}" is version ${scenario.version}, expected ${FIXTURE_SCHEMA_VERSION}`);
+  }
+  return scenario;
+}
+
+// Chains a scenario leaves out simply have no data
+function getChainData(chain: ChainConfig): FixtureChainData | undefined {
+  return getFixtureScenario().chains[chain.key];
+}
+
+function fixtureToken(chain: ChainConfig, symbol: string): TokenInfo {
+  const token = getTokenBySymbol(chain.chain.id, symbol);
+  if (!token) {
+    throw new Error(`Fixture token ${symbol} on ${chain.name} is missing from the token registry`);
+  }
+  return token;
+}
+
+function fixturePrice(data: FixtureChainData, symbol: string): number | undefined {
+  return data.prices.tokens[symbol];
+}
+
+export function getFixturePrices(chain: ChainConfig): PriceSnapshot {
+  const data = getChainData(chain);
+  const tokens: PriceSnapshot['tokens'] = {};
+  for (const [symbol, priceUsd] of Object.entries(data?.prices.tokens || {})) {
+    tokens[fixtureToken(chain, symbol).address.toLowerCase()] = { symbol, priceUsd };
+  }
+
+  return {
+    tokens,
+    nativeTokenPriceUsd: data?.prices.native ?? 0,
+    updatedAt: getFixtureScenario().updatedAt,
+  };
+}
+
+export function getFixtureOpportunities(chain: ChainConfig): YieldOpportunity[] {
+  const data = getChainData(chain);
+  if (!data) return [];
+
+  return data.opportunities.map((market): YieldOpportunity => {
+    const token = fixtureToken(chain, market.symbol);
+    const rewardTokens = (market.rewardTokens || []).map((reward) => ({
+      symbol: reward.symbol,
+      address: fixtureToken(chain, reward.symbol).address,
+      apr: reward.apr,
+    }));
+    const rewardApr = rewardTokens.reduce((sum, reward) => sum + reward.apr, 0);
+
+    let contractAddress: Address;
+    let depositUrl: string;
+    if (market.protocol === compoundAdapter.protocol) {
+      const comet = chain.compound.markets.find((candidate) => candidate.symbol === market.symbol);
+      if (!comet) {
+        throw new Error(`Fixture market Compound ${market.symbol} has no Comet on ${chain.name}`);
+      }
+      contractAddress = comet.comet;
+      depositUrl = getCompoundMarketUrl(comet);
+    } else {
+      contractAddress = chain.aave.pool;
+      depositUrl = getAaveReserveUrl(chain, token.address);
+    }
+
+    // Both lenders accrue interest every second; rewards are added on top uncompounded
+    return {
+      chain: chain.key,
+      protocol: market.protocol,
+      asset: market.symbol,
+      symbol: market.symbol,
+      apr: market.baseApr + rewardApr,
+      apy: aprToApy(market.baseApr, SECONDS_PER_YEAR) + rewardApr,
+      baseApr: market.baseApr,
+      rewardApr,
+      rewardTokens,
+      tvl: market.totalSupplied,
+      priceUsd: fixturePrice(data, market.symbol),
+      totalSupplied: market.totalSupplied,
+      totalBorrowed: market.totalBorrowed,
+      availableLiquidity: market.totalSupplied - market.totalBorrowed,
+      utilization: market.totalSupplied > 0 ? market.totalBorrowed / market.totalSupplied : 0,
+      userBalance: 0,
+      suppliedBalance: 0,
+      depositUrl,
+      tokenAddress: token.address,
+      contractAddress,
+    };
+  });
+}
+
+export function getFixtureBalances(chain: ChainConfig, address: Address): WalletBalances {
+  const data = getChainData(chain);
+  const toUsd = (symbol: string, balance: number) => {
+    const price = data && fixturePrice(data, symbol);
+    return price === undefined ? null : balance * price;
+  };
+
+  const wallet: TokenBalance[] = (data?.balances.wallet || []).map(({ symbol, balance }) => {
+    const token = fixtureToken(chain, symbol);
+    return { symbol, address: token.address, decimals: token.decimals, balance, valueUsd: toUsd(symbol, balance) };
+  });
+  const supplied: SuppliedBalance[] = (data?.balances.supplied || []).map((position) => ({
+    protocol: position.protocol,
+    symbol: position.symbol,
+    tokenAddress: fixtureToken(chain, position.symbol).address,
+    contractAddress: position.contractAddress as Address,
+    balance: position.balance,
+    valueUsd: toUsd(position.symbol, position.balance),
+  }));
+
+  const nativeBalance = data?.balances.native ?? 0;
+  const nativeValueUsd = nativeBalance * (data?.prices.native ?? 0);
+  const sum = (balances: { valueUsd: number | null }[]) =>
+    balances.reduce((total, balance) => total + (balance.valueUsd || 0), 0);
+
+  return {
+    chain: chain.key,
+    address,
+    native: { symbol: chain.nativeSymbol, balance: nativeBalance, valueUsd: nativeValueUsd },
+    wallet,
+    supplied,
+    totalWalletUsd: sum(wallet) + nativeValueUsd,
+    totalSuppliedUsd: sum(supplied),
+    updatedAt: getFixtureScenario().updatedAt,
+  };
+}
+
+// Same shape as the live /api/polygon response, with fixture balances applied for an address
+export function getFixtureYieldResponse(chain: ChainConfig, address?: Address): YieldOpportunitiesResponse {
+  const opportunities = getFixtureOpportunities(chain);
+  return {
+    chain: chain.key,
+    opportunities: address ? applyBalances(opportunities, getFixtureBalances(chain, address)) : opportunities,
+    sources: [aaveAdapter, compoundAdapter].map((adapter) => ({
+      source: adapter.id,
+      ok: true,
+      marketCount: opportunities.filter((opportunity) => opportunity.protocol === adapter.protocol).length,
+      errors: [],
+    })),
+  };
+}
+
+export function getFixtureLiquidityPairs(chain: ChainConfig): LiquidityPair[] {
+  const data = getChainData(chain);
+  if (!data) return [];
+
+  const pairToken = (symbol: string): LiquidityPair['token0'] => {
+    const { address, name, decimals } = fixtureToken(chain, symbol);
+    return { address: address.toLowerCase(), symbol, name, decimals, price: fixturePrice(data, symbol) ?? 0 };
+  };
+
+  return data.liquidityPairs.map((pair) => ({
+    ...pair,
+    token0: pairToken(pair.token0),
+    token1: pairToken(pair.token1),
+    rewardTokens: pair.rewardTokens.map(({ symbol, rewardRate }) => ({
+      symbol,
+      address: fixtureToken(chain, symbol).address.toLowerCase(),
+      rewardRate,
+      price: fixturePrice(data, symbol) ?? 0,
+    })),
+    riskLevel: pair.riskLevel as LiquidityPair['riskLevel'],
+  }));
+}
+
+export function getFixtureDefiLlamaPools(): DefiLlamaPool[] {
+  return getFixtureScenario().defiLlamaPools;
+}
+
+// Gas estimate with the same shape the live gas-estimate route returns
+export function getFixtureGasEstimate(
+  chain: ChainConfig,
+  protocol: string,
+  action: GasAction = 'deposit',
+  tokenAddress = ''
+): GasEstimate {
+  const gas = getChainData(chain)?.gas;
+  const isDeposit = action === 'deposit';
+  return buildGasEstimate({
+    chain,
+    protocol,
+    action,
+    approveGas: BigInt(isDeposit && gas?.approvalNeeded ? gas.approveGasUnits : 0),
+    supplyGas: BigInt(isDeposit ? gas?.supplyGasUnits[protocol] ?? 0 : 0),
+    withdrawGas: BigInt(isDeposit ? 0 : gas?.withdrawGasUnits[protocol] ?? 0),
+    usesPermit: isDeposit && canSupplyWithPermit(chain, protocol, tokenAddress),
+    baseFeePerGas: parseGwei(String(gas?.baseFeeGwei ?? 0)),
+    priorityFeePerGas: parseGwei(String(gas?.priorityFeeGwei ?? 0)),
+    nativePriceUsd: getChainData(chain)?.prices.native ?? null,
+  });
+}
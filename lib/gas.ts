@@ -0,0 +1,358 @@
+import { formatGwei, formatUnits, isAddress, maxUint256, parseUnits, type PublicClient } from 'viem';
+import { AAVE_POOL_ABI, COMET_ABI, ERC20_ABI } from '@/lib/abis';
+import { aaveAdapter } from '@/lib/adapters/aave';
+import { compoundAdapter } from '@/lib/adapters/compound';
+import type { Address, ChainConfig, SupportedChainKey } from '@/lib/chains';
+import { fetchPriceSnapshot, type PriceSnapshot } from '@/lib/pricing';
+import { getToken } from '@/lib/tokens';
+
+// How often clients refresh their estimates; fees rarely move enough to matter between blocks
+export const GAS_ESTIMATE_REFRESH_MS = 30 * 1000;
+
+// Most deposits a single batch request may estimate
+export const MAX_GAS_ESTIMATE_BATCH = 50;
+
+// Blocks of fee history to sample and the tip percentile to pay within each block
+const FEE_HISTORY_BLOCKS = 20;
+const PRIORITY_FEE_PERCENTILE = 50;
+
+// Used when a call can't be simulated, e.g. supply before the approval has been mined
+const DEFAULT_APPROVE_GAS = BigInt(60000);
+const DEFAULT_SUPPLY_GAS: Record<string, bigint> = {
+  [aaveAdapter.protocol]: BigInt(250000),
+  [compoundAdapter.protocol]: BigInt(150000),
+};
+const DEFAULT_WITHDRAW_GAS: Record<string, bigint> = {
+  [aaveAdapter.protocol]: BigInt(230000),
+  [compoundAdapter.protocol]: BigInt(130000),
+};
+
+// Extra gas supplyWithPermit spends verifying the signature and setting the allowance.
+// It can't be simulated without a real signature, so it is always estimated.
+const PERMIT_SUPPLY_OVERHEAD_GAS = BigInt(30000);
+
+// Which transaction an estimate is for
+export type GasAction = 'deposit' | 'withdraw';
+
+// Shape returned by /api/polygon/gas-estimate; all fees in gwei, costs in the native token and USD
+export interface GasEstimate {
+  chain: SupportedChainKey;
+  protocol: string;
+  action: GasAction;
+  nativeSymbol: string;
+  approvalNeeded: boolean; // Current allowance is below the deposit amount
+  usesPermit: boolean; // The approval is a signed permit bundled into supply, not its own transaction
+  transactionCount: number; // Transactions the user has to send
+  permitSavings: {
+    transactions: number;
+    gasUnits: number;
+    costNative: number;
+    costUsd: number | null;
+  } | null; // What the permit saves over approve + supply, null when no permit is used
+  gasUnits: {
+    approve: number; // 0 when no approval is needed
+    supply: number; // 0 for withdrawals
+    withdraw: number; // 0 for deposits
+    total: number;
+  };
+  baseFeeGwei: number; // Base fee of the next block
+  priorityFeeGwei: number; // Median tip paid over recent blocks
+  maxFeePerGasGwei: number; // Cap to send with the transaction: twice the base fee plus the tip
+  costNative: number; // Expected cost at base fee plus tip
+  maxCostNative: number; // Worst case at the max fee
+  nativePriceUsd: number | null;
+  costUsd: number | null; // Expected cost in USD, null without a native token price
+  updatedAt: string;
+}
+
+export interface GasEstimateInput {
+  chain: ChainConfig;
+  protocol: string;
+  action: GasAction;
+  approveGas: bigint; // 0 when no approval is needed
+  supplyGas: bigint;
+  withdrawGas: bigint;
+  usesPermit?: boolean; // Replace the approve transaction with a permit; approveGas is then the gas it saves
+  baseFeePerGas: bigint;
+  priorityFeePerGas: bigint;
+  nativePriceUsd: number | null;
+}
+
+// Turn gas units and fees into the structured estimate the UI works with
+export function buildGasEstimate({
+  chain,
+  protocol,
+  action,
+  approveGas,
+  supplyGas,
+  withdrawGas,
+  usesPermit = false,
+  baseFeePerGas,
+  priorityFeePerGas,
+  nativePriceUsd,
+}: GasEstimateInput): GasEstimate {
+  const approvalNeeded = approveGas > BigInt(0);
+  const permitted = usesPermit && approvalNeeded;
+  const sentApproveGas = permitted ? BigInt(0) : approveGas;
+  const sentSupplyGas = permitted ? supplyGas + PERMIT_SUPPLY_OVERHEAD_GAS : supplyGas;
+
+  const totalGas = sentApproveGas + sentSupplyGas + withdrawGas;
+  const maxFeePerGas = baseFeePerGas * BigInt(2) + priorityFeePerGas;
+  const toNative = (gas: bigint) => Number(formatUnits(gas * (baseFeePerGas + priorityFeePerGas), 18));
+  const toUsd = (native: number) => (nativePriceUsd === null ? null : native * nativePriceUsd);
+  const costNative = toNative(totalGas);
+
+  // The approve transaction's gas, less what the permit adds to supply
+  const savedGas = approveGas > PERMIT_SUPPLY_OVERHEAD_GAS ? approveGas - PERMIT_SUPPLY_OVERHEAD_GAS : BigInt(0);
+
+  return {
+    chain: chain.key,
+    protocol,
+    action,
+    nativeSymbol: chain.nativeSymbol,
+    approvalNeeded,
+    usesPermit: permitted,
+    transactionCount: sentApproveGas > BigInt(0) ? 2 : 1,
+    permitSavings: permitted
+      ? { transactions: 1, gasUnits: Number(savedGas), costNative: toNative(savedGas), costUsd: toUsd(toNative(savedGas)) }
+      : null,
+    gasUnits: {
+      approve: Number(sentApproveGas),
+      supply: Number(sentSupplyGas),
+      withdraw: Number(withdrawGas),
+      total: Number(totalGas),
+    },
+    baseFeeGwei: Number(formatGwei(baseFeePerGas)),
+    priorityFeeGwei: Number(formatGwei(priorityFeePerGas)),
+    maxFeePerGasGwei: Number(formatGwei(maxFeePerGas)),
+    costNative,
+    maxCostNative: Number(formatUnits(totalGas * maxFeePerGas, 18)),
+    nativePriceUsd,
+    costUsd: toUsd(costNative),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Contract the user approves, supplies to and withdraws from, if the protocol is supported on this chain
+export function getMarketContract(chain: ChainConfig, protocol: string, tokenAddress: string): Address | undefined {
+  if (protocol === aaveAdapter.protocol) return chain.aave.pool;
+  if (protocol === compoundAdapter.protocol) {
+    const wanted = tokenAddress.toLowerCase();
+    return chain.compound.markets.find((market) => market.baseToken.toLowerCase() === wanted)?.comet;
+  }
+  return undefined;
+}
+
+// Aave's supplyWithPermit can take a signed EIP-2612 permit instead of a prior approve transaction
+export function canSupplyWithPermit(chain: ChainConfig, protocol: string, tokenAddress: string): boolean {
+  return protocol === aaveAdapter.protocol && !!getToken(chain.chain.id, tokenAddress)?.permitVersion;
+}
+
+// Next block's base fee and the median tip at the chosen percentile over recent blocks
+export async function readEip1559Fees(client: PublicClient): Promise<{ baseFeePerGas: bigint; priorityFeePerGas: bigint }> {
+  const history = await client.getFeeHistory({
+    blockCount: FEE_HISTORY_BLOCKS,
+    rewardPercentiles: [PRIORITY_FEE_PERCENTILE],
+  });
+
+  // baseFeePerGas has one more entry than blocks requested: the next block's base fee
+  const baseFeePerGas = history.baseFeePerGas[history.baseFeePerGas.length - 1];
+
+  // Empty blocks report a zero tip, which says nothing about what it takes to get included
+  const tips = (history.reward || [])
+    .map((rewards) => rewards[0])
+    .filter((tip) => tip > BigInt(0))
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const priorityFeePerGas = tips.length > 0
+    ? tips[Math.floor(tips.length / 2)]
+    : await client.estimateMaxPriorityFeePerGas();
+
+  return { baseFeePerGas, priorityFeePerGas };
+}
+
+export interface TransactionGasParams {
+  action: GasAction;
+  protocol: string;
+  tokenAddress: Address;
+  market: Address; // Aave pool or Comet the transaction goes to
+  user: Address;
+  amount: string; // Human-readable token amount, e.g. "100.5", or "max" to withdraw everything
+}
+
+// Check raw request values for one deposit or withdrawal and resolve the market contract
+export function parseTransactionGasParams(
+  chain: ChainConfig,
+  { action = 'deposit', protocol, tokenAddress, amount, userAddress }: {
+    action?: string;
+    protocol?: string;
+    tokenAddress?: string;
+    amount?: string;
+    userAddress?: string;
+  }
+): { params: TransactionGasParams } | { error: string } {
+  if (action !== 'deposit' && action !== 'withdraw') {
+    return { error: `Invalid action parameter: ${action}` };
+  }
+  if (!tokenAddress || !isAddress(tokenAddress) || !userAddress || !isAddress(userAddress)) {
+    return { error: 'Missing or invalid tokenAddress or userAddress parameter' };
+  }
+  const isFullWithdrawal = action === 'withdraw' && amount === 'max';
+  // Plain decimal amounts only; parseUnits rejects exponents and signs
+  if (!amount || (!isFullWithdrawal && !/^\d+(\.\d+)?$/.test(amount))) {
+    return { error: 'Invalid amount parameter' };
+  }
+  const market = getMarketContract(chain, protocol || '', tokenAddress);
+  if (!protocol || !market) {
+    return { error: `Unsupported protocol or market: ${protocol} ${tokenAddress} on ${chain.name}` };
+  }
+  return { params: { action, protocol, tokenAddress, market, user: userAddress, amount } };
+}
+
+interface GasUnits {
+  approveGas: bigint;
+  supplyGas: bigint;
+  withdrawGas: bigint;
+  usesPermit?: boolean;
+}
+
+// Gas units for approve (if the allowance is short) and supply, simulated from the user's account.
+// Approvals that can be signed as a permit are flagged so the estimate leaves that transaction out.
+async function estimateDepositGasUnits(
+  client: PublicClient,
+  chain: ChainConfig,
+  { protocol, tokenAddress, market, user, amount }: TransactionGasParams
+): Promise<GasUnits> {
+  const token = { address: tokenAddress, abi: ERC20_ABI } as const;
+  const [decimals, allowance] = await Promise.all([
+    client.readContract({ ...token, functionName: 'decimals' }),
+    client.readContract({ ...token, functionName: 'allowance', args: [user, market] }),
+  ]);
+  const amountInUnits = parseUnits(amount, decimals);
+  const defaultSupplyGas = DEFAULT_SUPPLY_GAS[protocol] ?? DEFAULT_SUPPLY_GAS[aaveAdapter.protocol];
+
+  if (allowance < amountInUnits) {
+    // Supply would revert until the approval is mined, so only the approval can be simulated
+    // With a permit the approval is still estimated, to report what skipping it saves
+    const approveGas = await client
+      .estimateContractGas({ ...token, functionName: 'approve', args: [market, amountInUnits], account: user })
+      .catch(() => DEFAULT_APPROVE_GAS);
+    const usesPermit = canSupplyWithPermit(chain, protocol, tokenAddress);
+    return { approveGas, supplyGas: defaultSupplyGas, withdrawGas: BigInt(0), usesPermit };
+  }
+
+  const supplyGas = await (protocol === compoundAdapter.protocol
+    ? client.estimateContractGas({
+        address: market,
+        abi: COMET_ABI,
+        functionName: 'supply',
+        args: [tokenAddress, amountInUnits],
+        account: user,
+      })
+    : client.estimateContractGas({
+        address: market,
+        abi: AAVE_POOL_ABI,
+        functionName: 'supply',
+        args: [tokenAddress, amountInUnits, user, 0],
+        account: user,
+      })
+  ).catch((error) => {
+    console.warn(`[Gas] Could not simulate ${protocol} supply on ${chain.name}, using the default:`, error);
+    return defaultSupplyGas;
+  });
+
+  return { approveGas: BigInt(0), supplyGas, withdrawGas: BigInt(0) };
+}
+
+// Gas units for withdrawing, simulated from the user's account. "max" withdraws the whole position.
+async function estimateWithdrawGasUnits(
+  client: PublicClient,
+  chain: ChainConfig,
+  { protocol, tokenAddress, market, user, amount }: TransactionGasParams
+): Promise<GasUnits> {
+  const amountInUnits = amount === 'max'
+    ? maxUint256
+    : parseUnits(amount, await client.readContract({ address: tokenAddress, abi: ERC20_ABI, functionName: 'decimals' }));
+  const defaultWithdrawGas = DEFAULT_WITHDRAW_GAS[protocol] ?? DEFAULT_WITHDRAW_GAS[aaveAdapter.protocol];
+
+  const withdrawGas = await (protocol === compoundAdapter.protocol
+    ? client.estimateContractGas({
+        address: market,
+        abi: COMET_ABI,
+        functionName: 'withdraw',
+        args: [tokenAddress, amountInUnits],
+        account: user,
+      })
+    : client.estimateContractGas({
+        address: market,
+        abi: AAVE_POOL_ABI,
+        functionName: 'withdraw',
+        args: [tokenAddress, amountInUnits, user],
+        account: user,
+      })
+  ).catch((error) => {
+    console.warn(`[Gas] Could not simulate ${protocol} withdraw on ${chain.name}, using the default:`, error);
+    return defaultWithdrawGas;
+  });
+
+  return { approveGas: BigInt(0), supplyGas: BigInt(0), withdrawGas };
+}
+
+// One entry per requested transaction, in request order
+export type GasEstimateResult = { estimate: GasEstimate } | { error: string };
+
+// Estimate several deposits and withdrawals at once. Fees and the native token price are read once
+// for the whole batch; a transaction that can't be estimated gets an error without failing the others.
+// API routes pass loadPrices so the native token price comes from their shared price cache.
+export async function estimateGasBatch(
+  client: PublicClient,
+  chain: ChainConfig,
+  transactions: TransactionGasParams[],
+  loadPrices: () => Promise<PriceSnapshot> = () => fetchPriceSnapshot(client, chain)
+): Promise<GasEstimateResult[]> {
+  const [fees, nativePriceUsd] = await Promise.all([
+    readEip1559Fees(client),
+    loadPrices()
+      .then((snapshot) => snapshot.nativeTokenPriceUsd)
+      .catch((error) => {
+        console.warn(`[Gas] Could not read the ${chain.nativeSymbol} price:`, error);
+        return null;
+      }),
+  ]);
+
+  return Promise.all(transactions.map(async (params): Promise<GasEstimateResult> => {
+    try {
+      const units = params.action === 'withdraw'
+        ? await estimateWithdrawGasUnits(client, chain, params)
+        : await estimateDepositGasUnits(client, chain, params);
+      return {
+        estimate: buildGasEstimate({ chain, protocol: params.protocol, action: params.action, ...units, ...fees, nativePriceUsd }),
+      };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+}
+
+// Full estimate for one transaction: gas units, EIP-1559 fees and the native token price
+export async function estimateTransactionGas(
+  client: PublicClient,
+  chain: ChainConfig,
+  params: TransactionGasParams,
+  loadPrices?: () => Promise<PriceSnapshot>
+): Promise<GasEstimate> {
+  const [result] = await estimateGasBatch(client, chain, [params], loadPrices);
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result.estimate;
+}
+
+// "~0.0109 POL"
+export function formatGasCost(estimate: GasEstimate): string {
+  return `~${estimate.costNative.toFixed(4)} ${estimate.nativeSymbol}`;
+}
+
+// "$0.01", or "Unknown" without a native token price
+export function formatGasFee(estimate: GasEstimate): string {
+  return estimate.costUsd === null ? 'Unknown' : `$${estimate.costUsd.toFixed(2)}`;
+}
@@ -0,0 +1,11 @@
+import { createCache } from '@/lib/cache';
+import type { ChainConfig } from '@/lib/chains';
+import { fetchPriceSnapshot, type PriceSnapshot } from '@/lib/pricing';
+import { getPublicClient } from '@/lib/rpc/client';
+
+// Aave oracle prices, one snapshot per chain, shared by the prices and gas estimate routes
+const pricesCache = createCache<PriceSnapshot>('prices', { ttlMs: 30 * 1000, staleWhileRevalidateMs: 2 * 60 * 1000 });
+
+export function getCachedPriceSnapshot(chain: ChainConfig): Promise<PriceSnapshot> {
+  return pricesCache.get(chain.key, () => fetchPriceSnapshot(getPublicClient(chain), chain));
+}
@@ -0,0 +1,97 @@
+import type { PublicClient } from 'viem';
+import { AAVE_UI_DATA_PROVIDER_ABI } from '@/lib/abis';
+import type { ChainConfig } from '@/lib/chains';
+
+// Aave oracle prices are quoted in USD with 8 decimals
+const USD_PRICE_DECIMALS = 8;
+
+// Base-currency tuple returned alongside the reserves by getReservesData
+export interface AaveBaseCurrencyInfo {
+  marketReferenceCurrencyUnit: bigint;
+  marketReferenceCurrencyPriceInUsd: bigint;
+  networkBaseTokenPriceInUsd: bigint;
+  networkBaseTokenPriceDecimals: number;
+}
+
+export interface TokenPrice {
+  symbol: string;
+  priceUsd: number;
+}
+
+// USD prices for every Aave reserve plus the native gas token
+export interface PriceSnapshot {
+  tokens: Record<string, TokenPrice>; // Keyed by lowercase token address
+  nativeTokenPriceUsd: number;
+  updatedAt: string;
+}
+
+// Divide two bigints and return a float without losing precision on large values
+function ratio(numerator: bigint, denominator: bigint): number {
+  if (denominator === BigInt(0)) return 0;
+  const whole = numerator / denominator;
+  const remainder = numerator % denominator;
+  return Number(whole) + Number(remainder) / Number(denominator);
+}
+
+// Convert a reserve's priceInMarketReferenceCurrency to USD.
+// On markets quoted in USD the reference price is 1e8; on ETH-quoted markets it is the ETH price.
+export function reservePriceToUsd(
+  priceInMarketReferenceCurrency: bigint,
+  baseCurrency: AaveBaseCurrencyInfo
+): number {
+  const usdUnit = BigInt(10) ** BigInt(USD_PRICE_DECIMALS);
+  return ratio(
+    priceInMarketReferenceCurrency * baseCurrency.marketReferenceCurrencyPriceInUsd,
+    baseCurrency.marketReferenceCurrencyUnit * usdUnit
+  );
+}
+
+// USD price of the chain's native token (MATIC/POL on Polygon, ETH elsewhere)
+export function nativeTokenPriceToUsd(baseCurrency: AaveBaseCurrencyInfo): number {
+  return ratio(
+    baseCurrency.networkBaseTokenPriceInUsd,
+    BigInt(10) ** BigInt(baseCurrency.networkBaseTokenPriceDecimals)
+  );
+}
+
+// Build a price snapshot from an already-loaded getReservesData result
+export function buildPriceSnapshot(
+  reservesData: readonly { underlyingAsset: string; symbol: string; priceInMarketReferenceCurrency: bigint }[],
+  baseCurrency: AaveBaseCurrencyInfo
+): PriceSnapshot {
+  const tokens: Record<string, TokenPrice> = {};
+  for (const reserve of reservesData) {
+    tokens[reserve.underlyingAsset.toLowerCase()] = {
+      symbol: reserve.symbol,
+      priceUsd: reservePriceToUsd(reserve.priceInMarketReferenceCurrency, baseCurrency),
+    };
+  }
+
+  return {
+    tokens,
+    nativeTokenPriceUsd: nativeTokenPriceToUsd(baseCurrency),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Every Aave reserve plus the prices derived from them, in one call
+export async function readAaveReserves(client: PublicClient, chain: ChainConfig) {
+  const [reservesData, baseCurrency] = await client.readContract({
+    address: chain.aave.uiPoolDataProvider,
+    abi: AAVE_UI_DATA_PROVIDER_ABI,
+    functionName: 'getReservesData',
+    args: [chain.aave.poolAddressesProvider],
+  });
+  return { reservesData, prices: buildPriceSnapshot(reservesData, baseCurrency) };
+}
+
+// Read the Aave oracle prices for every reserve in one call
+export async function fetchPriceSnapshot(client: PublicClient, chain: ChainConfig): Promise<PriceSnapshot> {
+  const { prices } = await readAaveReserves(client, chain);
+  return prices;
+}
+
+// Look up a token's USD price in a snapshot, if it is known
+export function getTokenPriceUsd(snapshot: PriceSnapshot, tokenAddress: string): number | undefined {
+  return snapshot.tokens[tokenAddress.toLowerCase()]?.priceUsd;
+}
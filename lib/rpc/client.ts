@@ -0,0 +1,86 @@
+import { createPublicClient, type PublicClient } from 'viem';
+import { SUPPORTED_CHAIN_KEYS, type ChainConfig, type SupportedChainKey } from '@/lib/chains';
+import { createFailoverTransport, type EndpointStatus, type FailoverTransport } from './failover';
+import { recordReplay, resolveRecordReplayMode } from './recordReplay';
+
+// Server-side API key; the public 'demo' key works but is heavily rate limited
+// In production, use environment variables for API keys
+export const ALCHEMY_API_KEY = process.env.NEXT_PUBLIC_ALCHEMY_API_KEY || process.env.ALCHEMY_API_KEY || 'demo';
+
+// RPC_RECORD_MODE=record saves every RPC response under RPC_RECORDINGS_DIR; =replay serves them offline
+export const RPC_RECORD_MODE = resolveRecordReplayMode(process.env.RPC_RECORD_MODE);
+const RPC_RECORDINGS_DIR = process.env.RPC_RECORDINGS_DIR || 'lib/fixtures/rpc';
+
+function getAlchemyUrl(chain: ChainConfig): string {
+  return `https://${chain.alchemyNetwork}.g.alchemy.com/v2/${ALCHEMY_API_KEY}`;
+}
+
+// Comma-separated endpoints from RPC_URLS_<CHAIN>, e.g. RPC_URLS_POLYGON, tried in order
+function getConfiguredRpcUrls(key: SupportedChainKey): string[] {
+  return (process.env[`RPC_URLS_${key.toUpperCase()}`] || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+// Ordered endpoints for a chain: the configured list, or Alchemy and the chain's public RPC.
+// The shared demo key goes last since it is rate limited almost immediately.
+export function getRpcUrls(chain: ChainConfig): string[] {
+  const configured = getConfiguredRpcUrls(chain.key);
+  if (configured.length > 0) return configured;
+
+  const publicRpc = chain.chain.rpcUrls.default.http[0];
+  return ALCHEMY_API_KEY === 'demo'
+    ? [publicRpc, getAlchemyUrl(chain)]
+    : [getAlchemyUrl(chain), publicRpc];
+}
+
+// True when some chain has an endpoint better than the shared demo key
+export function hasDedicatedRpc(): boolean {
+  return ALCHEMY_API_KEY !== 'demo' || SUPPORTED_CHAIN_KEYS.some((key) => getConfiguredRpcUrls(key).length > 0);
+}
+
+// One failover transport and client per chain, shared by every route in this server process
+const failovers = new Map<SupportedChainKey, FailoverTransport>();
+const clients = new Map<SupportedChainKey, PublicClient>();
+
+function getFailoverTransport(chain: ChainConfig): FailoverTransport {
+  let failover = failovers.get(chain.key);
+  if (!failover) {
+    failover = createFailoverTransport(getRpcUrls(chain), {
+      timeout: 30000, // 30 seconds timeout
+      fetchOptions: {
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        // Add cache control to prevent caching issues
+        cache: 'no-store',
+      },
+      retryCount: 1, // One more pass over the endpoints once they have all failed
+      retryDelay: 1000, // 1 second between retries
+    });
+    failovers.set(chain.key, failover);
+  }
+  return failover;
+}
+
+export function getPublicClient(chain: ChainConfig): PublicClient {
+  let client = clients.get(chain.key);
+  if (!client) {
+    const { transport } = getFailoverTransport(chain);
+    client = createPublicClient({
+      chain: chain.chain,
+      transport: RPC_RECORD_MODE
+        ? recordReplay(transport, { mode: RPC_RECORD_MODE, dir: RPC_RECORDINGS_DIR })
+        : transport,
+    }) as PublicClient;
+    clients.set(chain.key, client);
+  }
+  return client;
+}
+
+// Health of every endpoint for a chain, in the order they are tried
+export function getRpcStatus(chain: ChainConfig): EndpointStatus[] {
+  return getFailoverTransport(chain).getStatus();
+}
@@ -0,0 +1,226 @@
+import {
+  BaseError,
+  createTransport,
+  HttpRequestError,
+  LimitExceededRpcError,
+  RpcError,
+  RpcRequestError,
+  TimeoutError,
+  type EIP1193RequestFn,
+  type HttpTransportConfig,
+  type Transport,
+  http,
+} from 'viem';
+
+// Weight of the newest sample in the moving averages below
+const SMOOTHING = 0.2;
+
+// Cooldown after a failure doubles with each consecutive one, up to the max
+const BASE_COOLDOWN_MS = 5000;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+
+export interface EndpointStatus {
+  url: string; // API keys are redacted
+  healthy: boolean; // False while cooling down after a failure
+  score: number; // 0-1, higher is better
+  latencyMs: number | null; // Moving average of successful requests
+  errorRate: number; // Moving average, 0-1
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+interface Endpoint {
+  url: string;
+  transport: Transport;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+}
+
+// Hide API keys in the last path segment or query string (Alchemy, Infura and similar)
+export function redactRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const segments = parsed.pathname.split('/');
+    const last = segments[segments.length - 1];
+    if (last && last.length >= 16) {
+      segments[segments.length - 1] = `${last.slice(0, 4)}…`;
+    }
+    parsed.pathname = segments.join('/');
+    parsed.search = parsed.search ? '?…' : '';
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+// JSON-RPC error codes providers use for rate limits sent with HTTP 200 (-32005 is EIP-1474's limit exceeded)
+const RATE_LIMIT_RPC_CODES = new Set([LimitExceededRpcError.code, 429]);
+
+// Rate limit wording seen in JSON-RPC error bodies (Alchemy, Infura, QuickNode, public nodes)
+const RATE_LIMIT_MESSAGE = /rate.?limit|too many requests|request limit|exceeded .*(capacity|quota|limit)|compute units/i;
+
+// Rate limits, server errors, timeouts and network failures are the endpoint's fault, so try the next one.
+// JSON-RPC errors such as reverts would come back the same from any endpoint.
+export function isEndpointFailure(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  if (error instanceof LimitExceededRpcError) return true;
+  // viem maps generic codes like -32000 and -32603 to typed RpcErrors before this runs, so the
+  // provider's own message (kept in details) is the only sign those were rate limits
+  if (error instanceof RpcError || error instanceof RpcRequestError) {
+    return RATE_LIMIT_RPC_CODES.has(error.code) || RATE_LIMIT_MESSAGE.test(`${error.details} ${error.shortMessage}`);
+  }
+  if (error instanceof HttpRequestError) {
+    const { status } = error;
+    return status === undefined || status === 401 || status === 403 || status === 429 || status >= 500;
+  }
+  return false;
+}
+
+function retryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof HttpRequestError)) return undefined;
+  const retryAfter = error.headers?.get('Retry-After');
+  return retryAfter?.match(/^\d+$/) ? Number(retryAfter) * 1000 : undefined;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof HttpRequestError && error.status) return `HTTP ${error.status}`;
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
+
+function getScore(endpoint: Endpoint): number {
+  // A second of average latency halves the score
+  const latencyFactor = endpoint.latencyMs === null ? 1 : 1 / (1 + endpoint.latencyMs / 1000);
+  return (1 - endpoint.errorRate) * latencyFactor;
+}
+
+function toStatus(endpoint: Endpoint, now: number): EndpointStatus {
+  return {
+    url: redactRpcUrl(endpoint.url),
+    healthy: endpoint.cooldownUntil <= now,
+    score: Number(getScore(endpoint).toFixed(3)),
+    latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+    errorRate: Number(endpoint.errorRate.toFixed(3)),
+    requests: endpoint.requests,
+    failures: endpoint.failures,
+    consecutiveFailures: endpoint.consecutiveFailures,
+    cooldownUntil: endpoint.cooldownUntil > now ? new Date(endpoint.cooldownUntil).toISOString() : null,
+    lastError: endpoint.lastError,
+    lastErrorAt: endpoint.lastErrorAt === null ? null : new Date(endpoint.lastErrorAt).toISOString(),
+  };
+}
+
+export interface FailoverTransport {
+  transport: Transport;
+  getStatus: () => EndpointStatus[];
+}
+
+// A transport over an ordered list of endpoints. Each request goes to the first healthy endpoint
+// in the configured order; on a rate limit, server error or timeout that endpoint cools down and
+// the request moves to the next one. When every endpoint is cooling down, the one that recovers
+// soonest is tried anyway rather than failing outright.
+export function createFailoverTransport(urls: string[], httpConfig: HttpTransportConfig = {}): FailoverTransport {
+  if (urls.length === 0) {
+    throw new Error('At least one RPC endpoint is required');
+  }
+
+  const endpoints: Endpoint[] = urls.map((url) => ({
+    url,
+    // Failover replaces per-endpoint retries; viem still retries the whole request once
+    transport: http(url, { ...httpConfig, retryCount: 0 }),
+    latencyMs: null,
+    errorRate: 0,
+    requests: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    cooldownUntil: 0,
+    lastError: null,
+    lastErrorAt: null,
+  }));
+
+  const recordSuccess = (endpoint: Endpoint, latencyMs: number) => {
+    endpoint.requests++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+    endpoint.errorRate *= 1 - SMOOTHING;
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs * (1 - SMOOTHING) + latencyMs * SMOOTHING;
+  };
+
+  const recordFailure = (endpoint: Endpoint, error: unknown) => {
+    const now = Date.now();
+    endpoint.requests++;
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.errorRate = endpoint.errorRate * (1 - SMOOTHING) + SMOOTHING;
+    endpoint.lastError = describeError(error);
+    endpoint.lastErrorAt = now;
+    const backoff = Math.min(BASE_COOLDOWN_MS * 2 ** (endpoint.consecutiveFailures - 1), MAX_COOLDOWN_MS);
+    endpoint.cooldownUntil = now + (retryAfterMs(error) ?? backoff);
+  };
+
+  // Healthy endpoints in configured order, or the one that recovers soonest when none are
+  const orderEndpoints = (): Endpoint[] => {
+    const now = Date.now();
+    const healthy = endpoints.filter((endpoint) => endpoint.cooldownUntil <= now);
+    const coolingDown = endpoints
+      .filter((endpoint) => endpoint.cooldownUntil > now)
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+    return healthy.length > 0 ? healthy : coolingDown.slice(0, 1);
+  };
+
+  const transport: Transport = (params) => {
+    const requests = new Map(endpoints.map((endpoint) => (
+      [endpoint, endpoint.transport({ ...params, retryCount: 0 }).request] as const
+    )));
+
+    return createTransport({
+      key: 'failover',
+      name: 'Failover',
+      type: 'failover',
+      retryCount: httpConfig.retryCount ?? 1,
+      retryDelay: httpConfig.retryDelay,
+      timeout: httpConfig.timeout,
+      request: (async (args: Parameters<EIP1193RequestFn>[0]) => {
+        let lastError: unknown;
+        for (const endpoint of orderEndpoints()) {
+          const startedAt = Date.now();
+          try {
+            const result = await requests.get(endpoint)!(args);
+            recordSuccess(endpoint, Date.now() - startedAt);
+            return result;
+          } catch (error) {
+            if (!isEndpointFailure(error)) {
+              // The endpoint answered; the request itself failed
+              recordSuccess(endpoint, Date.now() - startedAt);
+              throw error;
+            }
+            recordFailure(endpoint, error);
+            console.warn(`[RPC] ${redactRpcUrl(endpoint.url)} failed for ${args.method}, trying the next endpoint: ${endpoint.lastError}`);
+            lastError = error;
+          }
+        }
+        throw lastError;
+      }) as EIP1193RequestFn,
+    });
+  };
+
+  return {
+    transport,
+    getStatus: () => {
+      const now = Date.now();
+      return endpoints.map((endpoint) => toStatus(endpoint, now));
+    },
+  };
+}
@@ -0,0 +1,221 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createTransport, RpcRequestError, type EIP1193RequestFn, type Transport } from 'viem';
+
+// 'record' saves every JSON-RPC response to disk, 'replay' serves them back with no network
+export type RecordReplayMode = 'record' | 'replay';
+
+// Bump when the recording file layout changes; files with another version are rejected
+export const RECORDING_VERSION = 1;
+
+interface RecordedError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+// One JSON-RPC call; method and params are kept so recordings stay readable in diffs
+interface RecordedEntry {
+  method: string;
+  params: unknown;
+  result?: unknown;
+  error?: RecordedError;
+}
+
+// Every call made against one chain, all read at the same pinned block
+interface Recording {
+  version: number;
+  chainId: number;
+  blockNumber: string; // Hex block every 'latest' read was resolved to
+  recordedAt: string;
+  entries: Record<string, RecordedEntry>;
+}
+
+// Writes are batched: new entries are flushed this long after the last one arrives
+const FLUSH_DELAY_MS = 1000;
+
+export interface RecordReplayOptions {
+  mode: RecordReplayMode;
+  dir: string; // One <chainId>.json file per chain
+}
+
+export function resolveRecordReplayMode(value: string | undefined): RecordReplayMode | undefined {
+  if (value === 'record' || value === 'replay') return value;
+  if (value) {
+    console.warn(`[RPC Recorder] Unknown RPC_RECORD_MODE "${value}", expected "record" or "replay"`);
+  }
+  return undefined;
+}
+
+// Pin 'latest' to the recording's block so every read sees the same chain state
+// and the keys line up between the recording and replay runs
+function resolveBlockTags(params: unknown, blockNumber: string): unknown {
+  return Array.isArray(params)
+    ? params.map((param) => (param === 'latest' ? blockNumber : param))
+    : params;
+}
+
+// Key by method and params; the block is part of the params once 'latest' is pinned
+function entryKey(method: string, params: unknown): string {
+  return createHash('sha256').update(`${method}:${JSON.stringify(params ?? [])}`).digest('hex').slice(0, 24);
+}
+
+// The JSON-RPC error a node returned, if that is what failed (network errors are not recorded)
+function findRpcError(error: unknown): RecordedError | undefined {
+  let current = error as { cause?: unknown } | undefined;
+  while (current) {
+    if (current instanceof RpcRequestError) {
+      const { code, details, data } = current;
+      return { code, message: details, data };
+    }
+    current = current.cause as { cause?: unknown } | undefined;
+  }
+  return undefined;
+}
+
+function readRecording(file: string, chainId: number): Recording | undefined {
+  if (!existsSync(file)) return undefined;
+  const recording = JSON.parse(readFileSync(file, 'utf8')) as Recording;
+  if (recording.version !== RECORDING_VERSION || recording.chainId !== chainId) {
+    throw new Error(`RPC recording ${file} is version ${recording.version} for chain ${recording.chainId}, expected version ${RECORDING_VERSION} for chain ${chainId}`);
+  }
+  return recording;
+}
+
+function serializeRecording(recording: Recording): string {
+  return `${JSON.stringify(recording, null, 2)}\n`;
+}
+
+// One recording file, shared by every transport created for its chain so they add to the same entries
+interface RecordingFile {
+  loaded?: Promise<Recording>;
+  recording?: Recording;
+  dirty: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+  writing: Promise<void>; // Writes run one after another so a slow one can't land after a newer one
+}
+
+const recordingFiles = new Map<string, RecordingFile>();
+
+function getRecordingFile(file: string): RecordingFile {
+  let entry = recordingFiles.get(file);
+  if (!entry) {
+    entry = { dirty: false, writing: Promise.resolve() };
+    recordingFiles.set(file, entry);
+  }
+  return entry;
+}
+
+function scheduleFlush(file: string, state: RecordingFile) {
+  state.dirty = true;
+  if (state.timer) clearTimeout(state.timer);
+  state.timer = setTimeout(() => {
+    state.timer = undefined;
+    state.writing = state.writing.then(async () => {
+      if (!state.dirty || !state.recording) return;
+      state.dirty = false;
+      try {
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(file, serializeRecording(state.recording));
+      } catch (error) {
+        state.dirty = true;
+        console.error(`[RPC Recorder] Could not write ${file}:`, error);
+      }
+    });
+  }, FLUSH_DELAY_MS);
+}
+
+// Anything still waiting on the debounce is written synchronously when the process exits
+process.once('exit', () => {
+  for (const [file, state] of recordingFiles) {
+    if (!state.dirty || !state.recording) continue;
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, serializeRecording(state.recording));
+  }
+});
+
+// Wrap a transport so its requests are recorded to, or replayed from, a file per chain.
+// Recording appends to an existing file at its pinned block, flushing after a short pause and on exit;
+// delete the file to re-record at a newer block.
+export function recordReplay(transport: Transport, { mode, dir }: RecordReplayOptions): Transport {
+  return ({ chain, ...rest }) => {
+    if (!chain) {
+      throw new Error('The record/replay transport needs a chain to name its recording');
+    }
+
+    const file = path.join(dir, `${chain.id}.json`);
+    const inner = transport({ chain, ...rest });
+    const state = getRecordingFile(file);
+
+    // Read once and keep in memory; record mode only ever adds entries to this copy.
+    // A failed load isn't kept, so the next request tries again.
+    const loadRecording = (): Promise<Recording> => {
+      if (state.loaded) return state.loaded;
+      const loading = (async () => {
+        const existing = readRecording(file, chain.id);
+        if (existing) return (state.recording = existing);
+        if (mode === 'replay') {
+          throw new Error(`No RPC recording for ${chain.name} at ${file}; run with RPC_RECORD_MODE=record first`);
+        }
+        const blockNumber = (await inner.request({ method: 'eth_blockNumber' })) as string;
+        console.log(`[RPC Recorder] Recording ${chain.name} at block ${BigInt(blockNumber)} to ${file}`);
+        return (state.recording = {
+          version: RECORDING_VERSION,
+          chainId: chain.id,
+          blockNumber,
+          recordedAt: new Date().toISOString(),
+          entries: {},
+        });
+      })();
+      state.loaded = loading;
+      loading.catch(() => {
+        if (state.loaded === loading) state.loaded = undefined;
+      });
+      return loading;
+    };
+
+    return createTransport({
+      key: 'recordReplay',
+      name: `Record/Replay (${mode})`,
+      type: 'recordReplay',
+      // The wrapped transport already retries network failures, and replay never needs to
+      retryCount: 0,
+      request: (async ({ method, params }: { method: string; params?: unknown }) => {
+        const recording = await loadRecording();
+        if (method === 'eth_blockNumber') return recording.blockNumber;
+
+        const resolvedParams = resolveBlockTags(params, recording.blockNumber);
+        const key = entryKey(method, resolvedParams);
+        const body = { method, params: resolvedParams };
+
+        if (mode === 'replay') {
+          const entry = recording.entries[key];
+          if (!entry) {
+            throw new Error(`No recorded response for ${method} ${JSON.stringify(resolvedParams)} in ${file}; record it again with RPC_RECORD_MODE=record`);
+          }
+          if (entry.error) {
+            throw new RpcRequestError({ body, error: entry.error, url: file });
+          }
+          return entry.result;
+        }
+
+        try {
+          const result = await inner.request(body as Parameters<typeof inner.request>[0]);
+          recording.entries[key] = { method, params: resolvedParams, result };
+          scheduleFlush(file, state);
+          return result;
+        } catch (error) {
+          // Reverts and other node errors are part of the chain state, so replay them too
+          const rpcError = findRpcError(error);
+          if (rpcError) {
+            recording.entries[key] = { method, params: resolvedParams, error: rpcError };
+            scheduleFlush(file, state);
+          }
+          throw error;
+        }
+      }) as EIP1193RequestFn,
+    });
+  };
+}
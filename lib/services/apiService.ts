@@ -1,17 +1,23 @@
 'use client';
 
-import { YieldOpportunity } from '@/components/yield-scanner/YieldTable';
+import type { YieldOpportunitiesResponse, YieldOpportunity } from '@/lib/adapters/types';
+import { DEFAULT_CHAIN_KEY, type SupportedChainKey } from '@/lib/chains';
 
 /**
  * Fetches yield opportunities from the server-side API
  * This avoids CORS issues and rate limiting by proxying requests through our own API
  */
-export async function fetchYieldOpportunities(address?: string): Promise<YieldOpportunity[]> {
+export async function fetchYieldOpportunities(
+  address?: string,
+  chain: SupportedChainKey = DEFAULT_CHAIN_KEY,
+  fresh = false // Bypass the server cache for the address's positions
+): Promise<YieldOpportunity[]> {
   try {
-    // Build the URL with optional address parameter
-    const url = address 
-      ? `/api/polygon?address=${address}`
-      : '/api/polygon';
+    // Build the URL with the chain and optional address parameter
+    const params = new URLSearchParams({ chain });
+    if (address) params.append('address', address);
+    if (address && fresh) params.append('fresh', '1');
+    const url = `/api/polygon?${params.toString()}`;
     
     console.log(`[Client] Fetching yield opportunities from: ${url}`);
     
@@ -23,16 +29,24 @@ export async function fetchYieldOpportunities(address?: string): Promise<YieldOp
       throw new Error(`API error: ${response.status} - ${errorText}`);
     }
     
-    const data = await response.json();
-    console.log(`[Client] Received ${data.length} yield opportunities`);
+    const data: YieldOpportunitiesResponse = await response.json();
     
     // Ensure we're returning an array
-    if (!Array.isArray(data)) {
-      console.error('[Client] API did not return an array:', data);
+    if (!Array.isArray(data.opportunities)) {
+      console.error('[Client] API did not return an opportunities array:', data);
       return [];
     }
     
-    return data;
+    console.log(`[Client] Received ${data.opportunities.length} yield opportunities`);
+    
+    // Surface sources that failed so partial results are easy to spot
+    for (const source of data.sources || []) {
+      if (!source.ok) {
+        console.warn(`[Client] Yield source ${source.source} reported errors:`, source.errors);
+      }
+    }
+    
+    return data.opportunities;
   } catch (error) {
     console.error('[Client] Error fetching yield opportunities:', error);
     return [];
@@ -2,8 +2,11 @@
 
 import { createPublicClient, http, formatUnits, parseUnits } from 'viem';
 import { polygon } from 'wagmi/chains';
-import { POLYGON_TOKENS, DEPOSIT_ABI } from './yieldService';
-import { YieldOpportunity } from '@/components/yield-scanner/YieldTable';
+import type { YieldOpportunitiesResponse, YieldOpportunity } from '@/lib/adapters/types';
+import type { WalletBalances } from '@/lib/balances';
+import { MAX_GAS_ESTIMATE_BATCH, type GasAction, type GasEstimate, type GasEstimateResult } from '@/lib/gas';
+import { DEFAULT_CHAIN_KEY, type SupportedChainKey } from '@/lib/chains';
+import { getOpportunityTokenAddress } from '@/lib/tokens';
 
 // Create a public client for Polygon that uses our API route as a proxy
 // This avoids CORS issues and rate limiting by proxying through our Next.js API
@@ -149,40 +152,142 @@ function convertAaveRateToAPR(liquidityRate: bigint): number {
   return Number(apr) / 100;
 }
 
-// Function to estimate gas for deposit
-export async function estimateGasForDeposit(
-  protocol: string,
-  tokenAddress: string,
-  amount: number,
-  userAddress: string
-): Promise<string> {
+// Fetch one estimate from the gas-estimate route; null when the API fails
+async function fetchGasEstimate(params: Record<string, string>): Promise<GasEstimate | null> {
   try {
-    // Return default value for empty token addresses to avoid unnecessary API calls
-    if (!tokenAddress) {
-      return "~0.01 MATIC";
-    }
-    
-    // Use our API endpoint to get gas estimate
-    const response = await fetch(`/api/polygon/gas-estimate?protocol=${encodeURIComponent(protocol)}&tokenAddress=${encodeURIComponent(tokenAddress)}&amount=${amount}&userAddress=${encodeURIComponent(userAddress)}`);
+    const response = await fetch(`/api/polygon/gas-estimate?${new URLSearchParams(params).toString()}`);
     
     if (!response.ok) {
-      console.warn(`Gas estimate API returned status ${response.status}. Using default value.`);
-      return "~0.01 MATIC";
+      console.warn(`Gas estimate API returned status ${response.status}`);
+      return null;
     }
     
-    const data = await response.json();
-    return data.gasEstimate || "~0.01 MATIC"; // Fallback value
+    return await response.json();
   } catch (error) {
     console.error('Error estimating gas:', error);
-    return "~0.01 MATIC"; // Default estimate on error
+    return null;
   }
 }
 
-// Function to fetch user balances
-export async function fetchUserBalances(address: string): Promise<Record<string, number>> {
+// Function to estimate gas for a deposit; null when there is nothing to estimate or the API fails
+export async function estimateGasForDeposit(
+  protocol: string,
+  tokenAddress: string,
+  amount: number,
+  userAddress: string,
+  chain: SupportedChainKey = DEFAULT_CHAIN_KEY
+): Promise<GasEstimate | null> {
+  // Skip empty token addresses to avoid unnecessary API calls
+  if (!tokenAddress) {
+    return null;
+  }
+  return fetchGasEstimate({ chain, action: 'deposit', protocol, tokenAddress, amount: amount.toString(), userAddress });
+}
+
+// Function to estimate gas for a withdrawal; 'max' withdraws the whole position
+export async function estimateGasForWithdrawal(
+  protocol: string,
+  tokenAddress: string,
+  amount: number | 'max',
+  userAddress: string,
+  chain: SupportedChainKey = DEFAULT_CHAIN_KEY
+): Promise<GasEstimate | null> {
+  if (!tokenAddress) {
+    return null;
+  }
+  return fetchGasEstimate({ chain, action: 'withdraw', protocol, tokenAddress, amount: amount.toString(), userAddress });
+}
+
+// Deposit and full-withdrawal estimates for one table row
+export interface OpportunityGasEstimates {
+  deposit: GasEstimate | null; // null when there is nothing in the wallet to deposit
+  withdraw: GasEstimate | null; // null when nothing is supplied
+}
+
+// Identifies an opportunity across refreshes, so estimates can be matched to the latest rows
+export function getOpportunityKey(opportunity: YieldOpportunity): string {
+  const token = getOpportunityTokenAddress(opportunity).toLowerCase() || opportunity.asset;
+  return `${opportunity.chain ?? DEFAULT_CHAIN_KEY}:${opportunity.protocol}:${token}`;
+}
+
+// Function to estimate gas for depositing each opportunity's wallet balance and withdrawing its
+// supplied balance, batched per chain. Results are keyed by getOpportunityKey.
+export async function estimateGasForOpportunities(
+  opportunities: YieldOpportunity[],
+  userAddress: string
+): Promise<Record<string, OpportunityGasEstimates>> {
+  const estimates: Record<string, OpportunityGasEstimates> = {};
+
+  // Group transactions by chain, remembering which estimate each one fills in
+  type Row = { key: string; action: GasAction; opportunity: YieldOpportunity };
+  const byChain = new Map<SupportedChainKey, Row[]>();
+  opportunities.forEach((opportunity) => {
+    if (!opportunity.contractAddress) return;
+    const key = getOpportunityKey(opportunity);
+    estimates[key] = { deposit: null, withdraw: null };
+    const chain = opportunity.chain ?? DEFAULT_CHAIN_KEY;
+    const rows = byChain.get(chain) || [];
+    if (opportunity.userBalance > 0 && !opportunity.depositsDisabled) rows.push({ key, action: 'deposit', opportunity });
+    if ((opportunity.suppliedBalance || 0) > 0) rows.push({ key, action: 'withdraw', opportunity });
+    if (rows.length > 0) byChain.set(chain, rows);
+  });
+
+  // The batch route caps each request, so larger lists go out as several batches
+  const batches: { chain: SupportedChainKey; rows: Row[] }[] = [];
+  byChain.forEach((rows, chain) => {
+    for (let start = 0; start < rows.length; start += MAX_GAS_ESTIMATE_BATCH) {
+      batches.push({ chain, rows: rows.slice(start, start + MAX_GAS_ESTIMATE_BATCH) });
+    }
+  });
+
+  await Promise.all(batches.map(async ({ chain, rows }) => {
+    try {
+      const response = await fetch('/api/polygon/gas-estimate/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chain,
+          userAddress,
+          transactions: rows.map(({ action, opportunity }) => ({
+            action,
+            protocol: opportunity.protocol,
+            tokenAddress: getOpportunityTokenAddress(opportunity),
+            amount: action === 'deposit' ? opportunity.userBalance.toString() : 'max',
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        console.warn(`Gas estimate batch API returned status ${response.status}`);
+        return;
+      }
+
+      const data: { results: GasEstimateResult[] } = await response.json();
+      data.results.forEach((result, position) => {
+        if ('estimate' in result) {
+          const { key, action } = rows[position];
+          estimates[key][action] = result.estimate;
+        }
+      });
+    } catch (error) {
+      console.error('Error estimating gas:', error);
+    }
+  }));
+
+  return estimates;
+}
+
+// Function to fetch wallet, native and supplied balances
+export async function fetchUserBalances(
+  address: string,
+  chain: SupportedChainKey = DEFAULT_CHAIN_KEY,
+  fresh = false // Bypass the server cache, e.g. after a transaction
+): Promise<WalletBalances | null> {
   try {
     // Use our API endpoint to get user balances
-    const response = await fetch(`/api/polygon/balances?address=${encodeURIComponent(address)}`);
+    const response = await fetch(
+      `/api/polygon/balances?chain=${chain}&address=${encodeURIComponent(address)}${fresh ? '&fresh=1' : ''}`
+    );
     
     if (!response.ok) {
       throw new Error(`API error: ${response.status}`);
@@ -191,17 +296,20 @@ export async function fetchUserBalances(address: string): Promise<Record<string,
     return await response.json();
   } catch (error) {
     console.error('Error fetching user balances:', error);
-    return {};
+    return null;
   }
 }
 
 // Main function to fetch real-time yield opportunities
-export async function fetchRealTimeYieldOpportunities(address?: string): Promise<YieldOpportunity[]> {
+export async function fetchRealTimeYieldOpportunities(
+  address?: string,
+  chain: SupportedChainKey = DEFAULT_CHAIN_KEY
+): Promise<YieldOpportunity[]> {
   try {
     // Use our API endpoint to get yield opportunities
     const url = address 
-      ? `/api/polygon?address=${encodeURIComponent(address)}` 
-      : '/api/polygon';
+      ? `/api/polygon?chain=${chain}&address=${encodeURIComponent(address)}` 
+      : `/api/polygon?chain=${chain}`;
       
     const response = await fetch(url);
     
@@ -209,7 +317,8 @@ export async function fetchRealTimeYieldOpportunities(address?: string): Promise
       throw new Error(`API error: ${response.status}`);
     }
     
-    return await response.json();
+    const data: YieldOpportunitiesResponse = await response.json();
+    return data.opportunities || [];
   } catch (error) {
     console.error('Error fetching yield opportunities:', error);
     return [];
@@ -1,170 +1,332 @@
 'use client';
 
-import axios from 'axios';
-import { formatUnits, parseUnits, type WalletClient } from 'viem';
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  domainSeparator,
+  maxUint256,
+  parseSignature,
+  parseUnits,
+  publicActions,
+  UserRejectedRequestError,
+  type Account,
+  type Hash,
+  type Hex,
+  type WalletClient,
+} from 'viem';
 import { YieldOpportunity } from '@/components/yield-scanner/YieldTable';
+import { AAVE_POOL_ABI, COMET_ABI, ERC20_ABI, ERC20_PERMIT_ABI } from '@/lib/abis';
+import { compoundAdapter } from '@/lib/adapters/compound';
+import { CHAINS, DEFAULT_CHAIN_KEY, type Address, type ChainConfig } from '@/lib/chains';
+import { canSupplyWithPermit, getMarketContract } from '@/lib/gas';
+import { getOpportunityTokenAddress, getToken } from '@/lib/tokens';
+import type { TransactionKind } from '@/lib/transactions';
 
-// Mock data for development
-const mockYieldData: YieldOpportunity[] = [
-  {
-    protocol: 'Aave',
-    asset: 'USDC',
-    symbol: 'USDC',
-    apr: 5.2,
-    tvl: 500000000,
-    userBalance: 100,
-    depositUrl: 'https://app.aave.com/reserve-overview/?underlyingAsset=0x2791bca1f2de4661ed88a30c99a7a9449aa84174&marketName=proto_polygon_v3',
-    contractAddress: '0x794a61358D6845594F94dc1DB02A252b5b4814aD', // Aave V3 Pool on Polygon
-  },
-  {
-    protocol: 'Compound',
-    asset: 'USDC',
-    symbol: 'USDC',
-    apr: 4.8,
-    tvl: 300000000,
-    userBalance: 100,
-    depositUrl: 'https://app.compound.finance/',
-    contractAddress: '0xF25212E676D1F7F89Cd72fFEe66158f541246445', // Compound on Polygon
-  },
-  {
-    protocol: 'Aave',
-    asset: 'DAI',
-    symbol: 'DAI',
-    apr: 4.5,
-    tvl: 200000000,
-    userBalance: 50,
-    depositUrl: 'https://app.aave.com/reserve-overview/?underlyingAsset=0x8f3cf7ad23cd3cadbd9735aff958023239c6a063&marketName=proto_polygon_v3',
-    contractAddress: '0x794a61358D6845594F94dc1DB02A252b5b4814aD', // Aave V3 Pool on Polygon
-  },
-  {
-    protocol: 'Compound',
-    asset: 'DAI',
-    symbol: 'DAI',
-    apr: 4.2,
-    tvl: 150000000,
-    userBalance: 50,
-    depositUrl: 'https://app.compound.finance/',
-    contractAddress: '0xF25212E676D1F7F89Cd72fFEe66158f541246445', // Compound on Polygon
-  },
-  {
-    protocol: 'Aave',
-    asset: 'WETH',
-    symbol: 'WETH',
-    apr: 2.1,
-    tvl: 800000000,
-    userBalance: 0.5,
-    depositUrl: 'https://app.aave.com/reserve-overview/?underlyingAsset=0x7ceb23fd6bc0add59e62ac25578270cff1b9f619&marketName=proto_polygon_v3',
-    contractAddress: '0x794a61358D6845594F94dc1DB02A252b5b4814aD', // Aave V3 Pool on Polygon
-  },
-  {
-    protocol: 'Compound',
-    asset: 'WETH',
-    symbol: 'WETH',
-    apr: 1.9,
-    tvl: 600000000,
-    userBalance: 0.5,
-    depositUrl: 'https://app.compound.finance/',
-    contractAddress: '0xF25212E676D1F7F89Cd72fFEe66158f541246445', // Compound on Polygon
-  },
-];
-
-// Common token addresses on Polygon
-export const POLYGON_TOKENS = {
-  USDC: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
-  DAI: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063',
-  WETH: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619',
-};
-
-// ERC20 ABI for balance checking
-const ERC20_ABI = [
-  {
-    name: 'balanceOf',
-    type: 'function',
-    inputs: [{ name: 'owner', type: 'address' }],
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
-  },
-  {
-    name: 'decimals',
-    type: 'function',
-    inputs: [],
-    outputs: [{ name: '', type: 'uint8' }],
-    stateMutability: 'view',
-  },
-  {
-    name: 'symbol',
-    type: 'function',
-    inputs: [],
-    outputs: [{ name: '', type: 'string' }],
-    stateMutability: 'view',
-  },
-];
-
-// ABI for deposit function (simplified for example)
-export const DEPOSIT_ABI = [
-  {
-    name: 'deposit',
-    type: 'function',
-    inputs: [
-      { name: 'asset', type: 'address' },
-      { name: 'amount', type: 'uint256' },
-      { name: 'onBehalfOf', type: 'address' },
-      { name: 'referralCode', type: 'uint16' },
-    ],
-    outputs: [],
-    stateMutability: 'nonpayable',
-  },
-];
-
-// Function to get yield opportunities
-export async function getYieldOpportunities(address?: string): Promise<YieldOpportunity[]> {
-  try {
-    // In a real implementation, we would fetch data from Aave and Compound APIs
-    // For now, we'll use mock data or fetch from our API
-    
-    // If no address is provided, return opportunities with zero balance
-    if (!address) {
-      return mockYieldData.map(opportunity => ({
-        ...opportunity,
-        userBalance: 0,
-      }));
+// Why a transaction didn't go through, so the UI can tell a cancel apart from a failure
+export type TransactionErrorKind = 'rejected' | 'reverted' | 'insufficient-funds' | 'wrong-network' | 'unknown';
+
+// Called as soon as the wallet returns a hash, so the transaction can be tracked from the start
+export type TransactionSubmittedHandler = (hash: Hash, kind: TransactionKind) => void;
+
+// success means the final transaction was submitted; its confirmation is tracked by the caller
+export interface TransactionResult {
+  success: boolean;
+  txHash?: Hash;
+  approvalTxHash?: Hash; // Set when an approval had to be sent first
+  usedPermit?: boolean; // The approval was signed off-chain and bundled into the deposit
+  error?: string;
+  errorKind?: TransactionErrorKind;
+}
+
+// Amounts come from float balances, so a "max" deposit can land a few wei above the real balance.
+// Anything within this fraction of the balance is treated as the whole balance.
+const BALANCE_ROUNDING_TOLERANCE = BigInt(1000000); // 1 part in a million
+
+// Turn a failed wallet or contract call into a message worth showing
+export function describeTransactionError(error: unknown): { error: string; errorKind: TransactionErrorKind } {
+  if (error instanceof BaseError) {
+    if (error.walk((cause) => cause instanceof UserRejectedRequestError)) {
+      return { error: 'Transaction rejected in your wallet', errorKind: 'rejected' };
+    }
+    if (error.walk((cause) => cause instanceof InsufficientFundsError)) {
+      return { error: 'Not enough native token to pay for gas', errorKind: 'insufficient-funds' };
+    }
+    const reverted = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+      const reason = reverted.data?.errorName ?? reverted.reason ?? reverted.shortMessage;
+      return { error: `Transaction would revert: ${reason}`, errorKind: 'reverted' };
     }
-    
-    // In a real implementation, we would fetch user balances and update the opportunities
-    // For now, we'll just return the mock data
-    return mockYieldData;
+    return { error: error.shortMessage, errorKind: 'unknown' };
+  }
+  return { error: error instanceof Error ? error.message : 'Transaction failed', errorKind: 'unknown' };
+}
+
+// EIP-2612 Permit message, signed by the token owner
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+// How long a signed permit stays usable; it only has to outlive the deposit transaction
+const PERMIT_DEADLINE_SECONDS = 20 * 60;
+
+interface SignedPermit {
+  deadline: bigint;
+  v: number;
+  r: Hex;
+  s: Hex;
+}
+
+// Ask the wallet to sign a permit letting the spender pull the amount. Returns null when the token's
+// EIP-712 domain doesn't match the configured one, so the caller can fall back to approve.
+async function signPermit(
+  walletClient: WalletClient,
+  account: Account,
+  chain: ChainConfig,
+  tokenAddress: Address,
+  spender: Address,
+  value: bigint
+): Promise<SignedPermit | null> {
+  const version = getToken(chain.chain.id, tokenAddress)?.permitVersion;
+  if (!version) return null;
+
+  const client = walletClient.extend(publicActions);
+  const permitToken = { address: tokenAddress, abi: ERC20_PERMIT_ABI } as const;
+  let name: string, nonce: bigint, separator: Hex;
+  try {
+    [name, nonce, separator] = await Promise.all([
+      client.readContract({ ...permitToken, functionName: 'name' }),
+      client.readContract({ ...permitToken, functionName: 'nonces', args: [account.address] }),
+      client.readContract({ ...permitToken, functionName: 'DOMAIN_SEPARATOR' }),
+    ]);
   } catch (error) {
-    console.error('Error fetching yield opportunities:', error);
-    return [];
+    console.warn(`Could not read permit data for ${tokenAddress}, using approve instead:`, error);
+    return null;
+  }
+
+  // A signature over the wrong domain would only fail on-chain, after the user has already signed
+  const domain = { name, version, chainId: chain.chain.id, verifyingContract: tokenAddress };
+  if (domainSeparator({ domain }) !== separator) {
+    console.warn(`Permit domain mismatch for ${tokenAddress}, using approve instead`);
+    return null;
   }
+
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS);
+  const signature = await walletClient.signTypedData({
+    account,
+    domain,
+    types: PERMIT_TYPES,
+    primaryType: 'Permit',
+    message: { owner: account.address, spender, value, nonce, deadline },
+  });
+  const { r, s, v, yParity } = parseSignature(signature);
+  return { deadline, v: v !== undefined ? Number(v) : yParity + 27, r, s };
+}
+
+// Simulate Aave's supplyWithPermit with a signed permit; rejects when the pool or token would revert
+function simulateSupplyWithPermit(
+  walletClient: WalletClient,
+  account: Account,
+  market: Address,
+  tokenAddress: Address,
+  amount: bigint,
+  permit: SignedPermit
+) {
+  return walletClient.extend(publicActions).simulateContract({
+    address: market,
+    abi: AAVE_POOL_ABI,
+    functionName: 'supplyWithPermit',
+    args: [tokenAddress, amount, account.address, 0, permit.deadline, permit.v, permit.r, permit.s],
+    account,
+  });
 }
 
-// Function to deposit into a protocol (mock implementation)
+// Check the wallet against the opportunity's chain and resolve the contract a transaction goes to
+function resolveMarket(
+  opportunity: YieldOpportunity,
+  action: 'deposit' | 'withdraw',
+  walletClient: WalletClient
+): { chain: ChainConfig; tokenAddress: Address; market: Address } | { error: TransactionResult } {
+  const chain = CHAINS[opportunity.chain ?? DEFAULT_CHAIN_KEY];
+  if (walletClient.chain?.id !== chain.chain.id) {
+    return { error: { success: false, error: `Switch your wallet to ${chain.name} to ${action}`, errorKind: 'wrong-network' } };
+  }
+
+  const tokenAddress = getOpportunityTokenAddress(opportunity) as Address;
+  const market = tokenAddress ? getMarketContract(chain, opportunity.protocol, tokenAddress) : undefined;
+  if (!market) {
+    const error = `${opportunity.protocol} ${opportunity.symbol} on ${chain.name} is not supported`;
+    return { error: { success: false, error, errorKind: 'unknown' } };
+  }
+  return { chain, tokenAddress, market };
+}
+
+// Function to deposit into a protocol: approve the market (or sign a permit) if needed, then supply
 export async function depositToProtocol(
   opportunity: YieldOpportunity,
   amount: number,
   address: string,
-  walletClient?: WalletClient
-): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  walletClient?: WalletClient,
+  onSubmitted?: TransactionSubmittedHandler
+): Promise<TransactionResult> {
+  const account = address as Address;
+  let approvalTxHash: Hash | undefined;
+
   try {
-    // In a real implementation, we would create and send a transaction
-    // For now, we'll just simulate a successful deposit
-    
-    console.log(`Depositing ${amount} ${opportunity.symbol} to ${opportunity.protocol} for ${address}`);
-    
-    // Simulate transaction delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Return mock transaction hash
-    return {
-      success: true,
-      txHash: `0x${Array.from({length: 64}, () => Math.floor(Math.random() * 16).toString(16)).join('')}`,
-    };
+    if (!walletClient?.account) {
+      return { success: false, error: 'Connect a wallet to deposit', errorKind: 'unknown' };
+    }
+    if (opportunity.depositsDisabled) {
+      const error = `${opportunity.protocol} is not accepting ${opportunity.symbol} deposits right now`;
+      return { success: false, error, errorKind: 'unknown' };
+    }
+    const resolved = resolveMarket(opportunity, 'deposit', walletClient);
+    if ('error' in resolved) return resolved.error;
+    const { chain, tokenAddress, market } = resolved;
+
+    console.log(`Depositing ${amount} ${opportunity.symbol} to ${opportunity.protocol} on ${chain.name} for ${account}`);
+
+    // Reads go through the wallet's own RPC so they see the same chain state it signs against
+    const client = walletClient.extend(publicActions);
+    const token = { address: tokenAddress, abi: ERC20_ABI } as const;
+    const [decimals, balance, allowance] = await Promise.all([
+      client.readContract({ ...token, functionName: 'decimals' }),
+      client.readContract({ ...token, functionName: 'balanceOf', args: [account] }),
+      client.readContract({ ...token, functionName: 'allowance', args: [account, market] }),
+    ]);
+
+    let amountInUnits = parseUnits(amount.toFixed(decimals), decimals);
+    if (amountInUnits > balance) {
+      if (amountInUnits - balance > balance / BALANCE_ROUNDING_TOLERANCE) {
+        return { success: false, error: `Amount exceeds your ${opportunity.symbol} balance`, errorKind: 'unknown' };
+      }
+      amountInUnits = balance;
+    }
+
+    // A short allowance is covered by a signed permit where the token and protocol support one,
+    // otherwise (or if the permit supply would revert) by an approve transaction for exactly the deposit amount
+    let permitSupply: Awaited<ReturnType<typeof simulateSupplyWithPermit>> | null = null;
+    if (allowance < amountInUnits && canSupplyWithPermit(chain, opportunity.protocol, tokenAddress)) {
+      const permit = await signPermit(walletClient, walletClient.account, chain, tokenAddress, market, amountInUnits);
+      // A permit the token doesn't accept only shows up as a revert, so simulate before relying on it
+      if (permit) {
+        permitSupply = await simulateSupplyWithPermit(walletClient, walletClient.account, market, tokenAddress, amountInUnits, permit)
+          .catch((error) => {
+            console.warn(`supplyWithPermit would revert for ${tokenAddress}, using approve instead:`, error);
+            return null;
+          });
+      }
+    }
+    if (allowance < amountInUnits && !permitSupply) {
+      const { request } = await client.simulateContract({
+        ...token,
+        functionName: 'approve',
+        args: [market, amountInUnits],
+        account: walletClient.account,
+      });
+      approvalTxHash = await walletClient.writeContract(request);
+      onSubmitted?.(approvalTxHash, 'approve');
+      // Supply can only be simulated once the allowance is in place
+      const approval = await client.waitForTransactionReceipt({ hash: approvalTxHash });
+      if (approval.status !== 'success') {
+        return { success: false, approvalTxHash, error: 'Token approval reverted', errorKind: 'reverted' };
+      }
+    }
+
+    // Simulate first so a revert surfaces with its reason before anything is sent
+    let txHash: Hash;
+    if (permitSupply) {
+      txHash = await walletClient.writeContract(permitSupply.request);
+    } else if (opportunity.protocol === compoundAdapter.protocol) {
+      const { request } = await client.simulateContract({
+        address: market,
+        abi: COMET_ABI,
+        functionName: 'supply',
+        args: [tokenAddress, amountInUnits],
+        account: walletClient.account,
+      });
+      txHash = await walletClient.writeContract(request);
+    } else {
+      const { request } = await client.simulateContract({
+        address: market,
+        abi: AAVE_POOL_ABI,
+        functionName: 'supply',
+        args: [tokenAddress, amountInUnits, account, 0],
+        account: walletClient.account,
+      });
+      txHash = await walletClient.writeContract(request);
+    }
+
+    onSubmitted?.(txHash, 'deposit');
+
+    return { success: true, txHash, approvalTxHash, usedPermit: !!permitSupply };
   } catch (error) {
     console.error('Error depositing:', error);
-    return {
-      success: false,
-      error: 'Transaction failed'
-    };
+    return { success: false, approvalTxHash, ...describeTransactionError(error) };
   }
-} 
\ No newline at end of file
+}
+
+// Function to withdraw from a protocol back to the wallet. 'max' withdraws the whole position,
+// including interest accrued after the balance was read.
+export async function withdrawFromProtocol(
+  opportunity: YieldOpportunity,
+  amount: number | 'max',
+  address: string,
+  walletClient?: WalletClient,
+  onSubmitted?: TransactionSubmittedHandler
+): Promise<TransactionResult> {
+  const account = address as Address;
+
+  try {
+    if (!walletClient?.account) {
+      return { success: false, error: 'Connect a wallet to withdraw', errorKind: 'unknown' };
+    }
+    const resolved = resolveMarket(opportunity, 'withdraw', walletClient);
+    if ('error' in resolved) return resolved.error;
+    const { chain, tokenAddress, market } = resolved;
+
+    console.log(`Withdrawing ${amount} ${opportunity.symbol} from ${opportunity.protocol} on ${chain.name} for ${account}`);
+
+    const client = walletClient.extend(publicActions);
+    let amountInUnits = maxUint256;
+    if (amount !== 'max') {
+      const decimals = await client.readContract({ address: tokenAddress, abi: ERC20_ABI, functionName: 'decimals' });
+      amountInUnits = parseUnits(amount.toFixed(decimals), decimals);
+    }
+
+    // Both protocols treat the max uint256 as "everything", so a full exit leaves no dust behind
+    let txHash: Hash;
+    if (opportunity.protocol === compoundAdapter.protocol) {
+      const { request } = await client.simulateContract({
+        address: market,
+        abi: COMET_ABI,
+        functionName: 'withdraw',
+        args: [tokenAddress, amountInUnits],
+        account: walletClient.account,
+      });
+      txHash = await walletClient.writeContract(request);
+    } else {
+      const { request } = await client.simulateContract({
+        address: market,
+        abi: AAVE_POOL_ABI,
+        functionName: 'withdraw',
+        args: [tokenAddress, amountInUnits, account],
+        account: walletClient.account,
+      });
+      txHash = await walletClient.writeContract(request);
+    }
+
+    onSubmitted?.(txHash, 'withdraw');
+
+    return { success: true, txHash };
+  } catch (error) {
+    console.error('Error withdrawing:', error);
+    return { success: false, ...describeTransactionError(error) };
+  }
+}
@@ -0,0 +1,122 @@
+import { getAddress, isAddress } from 'viem';
+import type { YieldOpportunity } from '@/lib/adapters/types';
+import { CHAINS, DEFAULT_CHAIN_KEY, type Address } from '@/lib/chains';
+import defaultTokenList from '@/lib/tokenlists/yieldsnap.tokenlist.json';
+
+// Rough risk bucket used when scoring pairs and describing tokens
+export type TokenCategory = 'stable' | 'blue-chip' | 'long-tail';
+
+const TOKEN_CATEGORIES: readonly TokenCategory[] = ['stable', 'blue-chip', 'long-tail'];
+
+// A token entry in the standard token list format (https://tokenlists.org)
+export interface TokenListToken {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+  extensions?: Record<string, unknown>;
+}
+
+export interface TokenList {
+  name: string;
+  timestamp: string;
+  version: { major: number; minor: number; patch: number };
+  keywords?: string[];
+  logoURI?: string;
+  tokens: TokenListToken[];
+}
+
+export interface TokenInfo {
+  chainId: number;
+  address: Address;
+  symbol: string;
+  name: string;
+  decimals: number;
+  category: TokenCategory;
+  priceFeedId?: string; // e.g. coingecko:usd-coin, as used by the DeFi Llama coins API
+  permitVersion?: string; // EIP-712 domain version, set when the token supports EIP-2612 permit
+  logoURI?: string;
+}
+
+// chainId -> lowercase address -> token
+const tokensByChain = new Map<number, Map<string, TokenInfo>>();
+
+// category, priceFeedId and permitVersion travel in the token list's free-form extensions
+function readCategory(extensions: TokenListToken['extensions']): TokenCategory {
+  const category = extensions?.category;
+  return TOKEN_CATEGORIES.includes(category as TokenCategory) ? (category as TokenCategory) : 'long-tail';
+}
+
+function readPriceFeedId(extensions: TokenListToken['extensions']): string | undefined {
+  const priceFeedId = extensions?.priceFeedId;
+  return typeof priceFeedId === 'string' ? priceFeedId : undefined;
+}
+
+function readPermitVersion(extensions: TokenListToken['extensions']): string | undefined {
+  const permitVersion = extensions?.permitVersion;
+  return typeof permitVersion === 'string' ? permitVersion : undefined;
+}
+
+// Add every valid token in a list to the registry; later lists override earlier entries.
+// Returns the number of tokens added.
+export function loadTokenList(list: TokenList): number {
+  let added = 0;
+
+  for (const token of list.tokens) {
+    if (!isAddress(token.address) || !Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 255) {
+      console.warn(`[Tokens] Skipping invalid entry ${token.symbol} on chain ${token.chainId} in ${list.name}`);
+      continue;
+    }
+
+    let chainTokens = tokensByChain.get(token.chainId);
+    if (!chainTokens) {
+      chainTokens = new Map();
+      tokensByChain.set(token.chainId, chainTokens);
+    }
+
+    chainTokens.set(token.address.toLowerCase(), {
+      chainId: token.chainId,
+      address: getAddress(token.address),
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      category: readCategory(token.extensions),
+      priceFeedId: readPriceFeedId(token.extensions),
+      permitVersion: readPermitVersion(token.extensions),
+      logoURI: token.logoURI,
+    });
+    added++;
+  }
+
+  return added;
+}
+
+export function getTokens(chainId: number): TokenInfo[] {
+  return Array.from(tokensByChain.get(chainId)?.values() || []);
+}
+
+export function getToken(chainId: number, address: string): TokenInfo | undefined {
+  return tokensByChain.get(chainId)?.get(address.toLowerCase());
+}
+
+// Symbols are matched case-insensitively
+export function getTokenBySymbol(chainId: number, symbol: string): TokenInfo | undefined {
+  const wanted = symbol.toUpperCase();
+  return getTokens(chainId).find((token) => token.symbol.toUpperCase() === wanted);
+}
+
+// Category for a token, treating anything unknown as long-tail
+export function getTokenCategory(chainId: number, address: string): TokenCategory {
+  return getToken(chainId, address)?.category ?? 'long-tail';
+}
+
+// Underlying token of an opportunity; older rows only carry the asset symbol
+export function getOpportunityTokenAddress(opportunity: YieldOpportunity): string {
+  if (opportunity.tokenAddress) return opportunity.tokenAddress;
+  const chainId = CHAINS[opportunity.chain ?? DEFAULT_CHAIN_KEY].chain.id;
+  return getTokenBySymbol(chainId, opportunity.asset)?.address ?? '';
+}
+
+loadTokenList(defaultTokenList as TokenList);
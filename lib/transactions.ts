@@ -0,0 +1,53 @@
+import type { Hash } from 'viem';
+import { CHAINS, type SupportedChainKey } from '@/lib/chains';
+
+// submitted: the wallet returned a hash. pending: the node has seen it. The rest are final.
+export type TransactionStatus = 'submitted' | 'pending' | 'confirmed' | 'failed' | 'replaced';
+
+export type TransactionKind = 'approve' | 'deposit' | 'withdraw';
+
+export interface TrackedTransaction {
+  hash: Hash;
+  chain: SupportedChainKey;
+  kind: TransactionKind;
+  description: string; // e.g. "Deposit 100 USDC into Aave"
+  status: TransactionStatus;
+  submittedAt: number; // ms since epoch
+  updatedAt: number;
+  replacedBy?: Hash; // Set when the wallet sped up or cancelled this transaction
+  error?: string;
+}
+
+// Newest first; older entries are dropped past this
+const MAX_HISTORY = 50;
+
+const STORAGE_PREFIX = 'yield-snap-transactions';
+
+export function isFinalStatus(status: TransactionStatus): boolean {
+  return status === 'confirmed' || status === 'failed' || status === 'replaced';
+}
+
+// Block explorer page for a transaction, e.g. on Polygonscan
+export function getExplorerTxUrl(chain: SupportedChainKey, hash: Hash): string | undefined {
+  const explorer = CHAINS[chain].chain.blockExplorers?.default.url;
+  return explorer ? `${explorer}/tx/${hash}` : undefined;
+}
+
+// History is kept per wallet, keyed by the lowercase address
+function storageKey(owner: string): string {
+  return `${STORAGE_PREFIX}:${owner.toLowerCase()}`;
+}
+
+export function loadTransactionHistory(owner: string): TrackedTransaction[] {
+  try {
+    const saved = localStorage.getItem(storageKey(owner));
+    return saved ? (JSON.parse(saved) as TrackedTransaction[]) : [];
+  } catch (error) {
+    console.warn('Could not read transaction history:', error);
+    return [];
+  }
+}
+
+export function saveTransactionHistory(owner: string, transactions: TrackedTransaction[]): void {
+  localStorage.setItem(storageKey(owner), JSON.stringify(transactions.slice(0, MAX_HISTORY)));
+}
@@ -1,6 +1,23 @@
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-export function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-} 
\ No newline at end of file
+import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+} 
+// Format a USD amount compactly, e.g. $1.25M
+export function formatCompactUsd(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+// Service fee estimated on deposits, shown in the yield tables and the deposit dialog
+export const ESTIMATED_FEE_RATE = 0.005;
+
+// Convert a simple APR (in %) to a compounded APY (in %)
+export function aprToApy(aprPercent: number, compoundingsPerYear: number): number {
+  return (Math.pow(1 + aprPercent / 100 / compoundingsPerYear, compoundingsPerYear) - 1) * 100;
+}
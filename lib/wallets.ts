@@ -0,0 +1,34 @@
+import { isAddress } from 'viem';
+import type { Address } from '@/lib/chains';
+
+// A wallet registered for the portfolio view; ensName is kept when it was entered by name
+export interface LabeledWallet {
+  address: Address;
+  label: string;
+  ensName?: string;
+}
+
+const STORAGE_KEY = 'yield-snap-wallets';
+
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export function isSameAddress(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+export function loadRegisteredWallets(): LabeledWallet[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? (JSON.parse(saved) as LabeledWallet[]) : [];
+    return Array.isArray(parsed) ? parsed.filter((wallet) => isAddress(wallet.address)) : [];
+  } catch (error) {
+    console.warn('Could not read registered wallets:', error);
+    return [];
+  }
+}
+
+export function saveRegisteredWallets(wallets: LabeledWallet[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(wallets));
+}